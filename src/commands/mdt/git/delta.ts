@@ -2,42 +2,157 @@ import { flags, SfdxCommand } from "@salesforce/command";
 import { AnyJson } from "@salesforce/ts-types";
 import * as chalk from "chalk";
 import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as x2jParser from "fast-xml-parser";
 
+import { MetadataType } from "../../../config/metadataTypes";
+import { x2jOptions } from "../../../config/fastXMLOptions";
 import {
   substringBeforeLast,
-  substringBeforeNthChar,
-  substringAfterLast,
   substringBefore,
   mkdirRecursive,
+  rmdirRecursive,
   writeFile,
-  copyFile,
+  mapWithConcurrency,
 } from "../../../utils/utilities";
 import {
-  gitShow,
-  gitDiff,
+  DeltaAction,
+  DeltaEntry,
+  DeltaOptions,
+  DeltaResult,
+  MetadataEntry,
+  MetadataItem,
+  TypeFilter,
   copyDiffOfComplexMetadata,
+  isReferencedWorkflowAction,
 } from "../../../utils/delta";
+import {
+  GitDiffEntry,
+  GitObjectReader,
+  gitDiff,
+  gitCatFileReader,
+  gitMergeBase,
+} from "../../../utils/git";
+import {
+  DeploymentStore,
+  DEPLOYMENT_STORES,
+  readDeployedCommit,
+} from "../../../utils/deployments";
+import {
+  Manifest,
+  MetadataFolder,
+  MetadataMember,
+  resolveMetadataFolder,
+  resolveMetadataMember,
+  resolveChildMetadataMember,
+  addManifestMember,
+  writeManifest,
+} from "../../../utils/manifest";
+import {
+  SfdxProject,
+  readProject,
+  findPackageDirectory,
+} from "../../../utils/project";
+import {
+  MetadataRegistry,
+  loadMetadataRegistry,
+  resolveMetadataType,
+} from "../../../utils/registry";
+import { convertToMdapi, zipDirectory } from "../../../utils/mdapi";
+import {
+  DestructiveChanges,
+  forcedDestructivePhases,
+  splitDestructiveChanges,
+} from "../../../utils/destructive";
+import { SelectedChanges, selectChanges } from "../../../utils/selection";
+import { findImpactedTestClasses } from "../../../utils/apexTests";
+import {
+  IgnoreFile,
+  DeltaIgnore,
+  loadDeltaIgnore,
+  findIgnoreFile,
+} from "../../../utils/forceignore";
+import {
+  SourceReader,
+  workingTreeReader,
+  gitRevisionReader,
+  copySourceFile,
+} from "../../../utils/source";
 
-const FMD_FOLDER = "force-app/main/default";
+/**
+ * number of delta entries copied at the same time
+ */
+const DELTA_CONCURRENCY = 8;
+
+/**
+ * field types whose values are restricted by the record types
+ */
+const PICKLIST_FIELD_TYPES = ["Picklist", "MultiselectPicklist"];
 
 export default class Differ extends SfdxCommand {
   public static examples = [
     `$ sfdx mdt:git:diff -f {fromCommit} [-t {toCommit}] -p {packagedirectory} [-d destructivedirectory]
   Generate a delta package based on a git diff
+  `,
+    `$ sfdx mdt:git:diff -f {fromCommit} -t {toCommit} -p {packagedirectory} -g
+  Generate a delta package from the git objects without checking out the to commit
+  `,
+    `$ sfdx mdt:git:diff -f {fromCommit} -p {packagedirectory} -d {destructivedirectory} --dryrun --json
+  Describe the delta package without copying anything
+  `,
+    `$ sfdx mdt:git:diff -f {targetBranch} -m -p {packagedirectory}
+  Generate a delta package from the merge-base of the target branch
+  `,
+    `$ sfdx mdt:git:diff -l {orgAlias} -p {packagedirectory} -d {destructivedirectory}
+  Generate a delta package from the last commit deployed to an org (see mdt:git:deployed)
+  `,
+    `$ sfdx mdt:git:diff -f {fromCommit} -p {packagedirectory} -k {ticketKey1},{ticketKey2}
+  Generate a delta package from the commits of some tickets only
+  `,
+    `$ sfdx mdt:git:diff -f {fromCommit} -p {packagedirectory} -d {destructivedirectory} -z {zipfile}
+  Generate a delta package in the Metadata API format zipped for mdapi:deploy
   `,
   ];
 
   protected static flagsConfig = {
     from: flags.string({
       char: "f",
-      required: true,
       description: "Branch or commit from",
     }),
+    mergebase: flags.boolean({
+      char: "m",
+      default: false,
+      exclusive: ["lastdeployed"],
+      description:
+        "Start the delta from the merge-base of the from branch and the to commit",
+    }),
+    lastdeployed: flags.string({
+      char: "l",
+      description:
+        "Start the delta from the last commit deployed to this org alias",
+    }),
+    deploystore: flags.enum({
+      char: "s",
+      options: DEPLOYMENT_STORES,
+      default: "file",
+      description:
+        "Where the deployed commits are recorded: a state file in the .sfdx folder or a git tag per org alias",
+    }),
     to: flags.string({
       char: "t",
       default: "",
       description: "Branch or commit to",
     }),
+    grep: flags.string({
+      description:
+        "Select only the commits of the range whose message matches this regular expression",
+    }),
+    tickets: flags.array({
+      char: "k",
+      description:
+        "Select only the commits of the range whose message mentions one of these comma separated ticket keys",
+    }),
     packagedir: flags.string({
       char: "p",
       required: true,
@@ -48,25 +163,194 @@ export default class Differ extends SfdxCommand {
       description:
         "The output directory where to generate the destructive package",
     }),
+    gitobjects: flags.boolean({
+      char: "g",
+      default: false,
+      description:
+        "Read the package content from the git objects of the to revision instead of the working tree",
+    }),
+    testclasses: flags.boolean({
+      default: false,
+      description:
+        "Detect the test classes related to the changed apex classes and triggers",
+    }),
+    ignore: flags.string({
+      char: "i",
+      description:
+        "Ignore file of the paths to exclude from the package, in addition to the .forceignore",
+    }),
+    ignoredestructive: flags.string({
+      char: "D",
+      description:
+        "Ignore file of the paths to exclude from the destructive changes, in addition to the .forceignore",
+    }),
+    "include-types": flags.array({
+      description:
+        "Metadata API type names kept in the package & the destructive changes, the other types are excluded",
+    }),
+    "exclude-types": flags.array({
+      description:
+        "Metadata API type names excluded from the package & the destructive changes",
+    }),
+    destructivepre: flags.array({
+      description:
+        "Metadata types always deleted before the deployment, in destructiveChangesPre.xml",
+    }),
+    destructivepost: flags.array({
+      description:
+        "Metadata types always deleted after the deployment, in destructiveChangesPost.xml",
+    }),
+    verbose: flags.builtin({
+      description: "Display the duration of each step of the delta",
+    }),
+    dryrun: flags.boolean({
+      default: false,
+      description:
+        "Describe the delta without copying the files or writing the manifests",
+    }),
+    mdapi: flags.boolean({
+      default: false,
+      description:
+        "Generate the package in the Metadata API format with its destructive changes",
+    }),
+    zipfile: flags.string({
+      char: "z",
+      description:
+        "Zip the package in the Metadata API format into this file, implies --mdapi",
+    }),
   };
 
   public async run(): Promise<AnyJson> {
     this.ux.startSpinner(chalk.yellowBright("Generating delta"));
+    let from: string;
+    let result: DeltaResult;
     try {
-      await this.delta(
+      from = await this.resolveBaseCommit(
         this.flags.from,
         this.flags.to,
+        this.flags.mergebase,
+        this.flags.lastdeployed,
+        this.flags.deploystore
+      );
+      result = await this.delta(
+        from,
+        this.flags.to,
         this.flags.packagedir,
-        this.flags.descructivedir
+        this.flags.descructivedir,
+        {
+          gitobjects: this.flags.gitobjects,
+          testclasses: this.flags.testclasses,
+          dryrun: this.flags.dryrun,
+          ignorefile: this.flags.ignore,
+          ignoredestructivefile: this.flags.ignoredestructive,
+          mdapi: this.flags.mdapi,
+          zipfile: this.flags.zipfile,
+          selection:
+            this.flags.grep || this.flags.tickets
+              ? { grep: this.flags.grep, tickets: this.flags.tickets }
+              : undefined,
+          forcedPhases: forcedDestructivePhases(
+            this.flags.destructivepre,
+            this.flags.destructivepost
+          ),
+          typeFilter: {
+            include: this.flags["include-types"],
+            exclude: this.flags["exclude-types"],
+          },
+        }
       );
     } catch (e) {
       // output error
       this.ux.stopSpinner("❌");
       this.ux.error(chalk.redBright(e));
+      return { success: false };
     }
     this.ux.stopSpinner("✔️");
+    for (const entry of result.entries) {
+      this.ux.log(this.formatDeltaEntry(entry));
+    }
+    const { testClasses, timings, ...deltaResult } = result;
+    for (const metadataTypeName of Object.keys(result.excludedTypes || {})) {
+      this.ux.log(
+        chalk.gray(
+          `Excluded ${metadataTypeName}: ${result.excludedTypes[
+            metadataTypeName
+          ].join(", ")}`
+        )
+      );
+    }
+    for (const unresolvedPath of result.unresolvedPaths || []) {
+      this.ux.warn(`${unresolvedPath} isn't a known metadata file, skipped`);
+    }
+    if (result.selectedCommits && result.selectedCommits.length === 0) {
+      this.ux.warn("No commit of the range matches the selection");
+    }
+    for (const excludedChange of result.excludedChanges || []) {
+      this.ux.warn(
+        `${
+          excludedChange.path
+        } is also changed by the excluded commits ${excludedChange.commits
+          .map((commit) => commit.substring(0, 7))
+          .join(", ")}`
+      );
+    }
+    if (testClasses) {
+      this.ux.log(
+        testClasses.length > 0
+          ? `-l RunSpecifiedTests -r ${testClasses.join(",")}`
+          : chalk.yellowBright("No test class found")
+      );
+    }
+    if (this.flags.zipfile && !this.flags.dryrun) {
+      this.ux.log(`Package zipped in ${this.flags.zipfile}`);
+    }
+    if (this.flags.verbose) {
+      for (const step of Object.keys(timings)) {
+        this.ux.log(chalk.gray(`${step}: ${timings[step]}ms`));
+      }
+    }
     // Return an object to be displayed with --json
-    return { success: true };
+    return {
+      success: true,
+      from,
+      ...deltaResult,
+      ...(testClasses ? { testClasses, runTests: testClasses.join(",") } : {}),
+      ...(this.flags.verbose ? { timings } : {}),
+    } as AnyJson;
+  }
+
+  /**
+   * resolve the commit the delta starts from
+   * @param from the branch or commit from
+   * @param to
+   * @param mergebase start from the merge-base of from and to
+   * @param lastdeployed start from the last commit deployed to this org alias
+   * @param deploystore
+   */
+  public async resolveBaseCommit(
+    from: string,
+    to: string,
+    mergebase: boolean = false,
+    lastdeployed?: string,
+    deploystore: DeploymentStore = "file"
+  ): Promise<string> {
+    if (from && lastdeployed) {
+      throw "Error --from and --lastdeployed can't be used together";
+    }
+    if (mergebase && lastdeployed) {
+      throw "Error --mergebase and --lastdeployed can't be used together";
+    }
+    if (!from && !lastdeployed) {
+      throw "Error --from or --lastdeployed is required";
+    }
+    const project: SfdxProject = await readProject();
+    if (lastdeployed) {
+      return readDeployedCommit(project.projectPath, lastdeployed, deploystore);
+    }
+    if (mergebase) {
+      return gitMergeBase(from, to || "HEAD", project.projectPath);
+    }
+    return from;
   }
 
   /**
@@ -75,315 +359,1038 @@ export default class Differ extends SfdxCommand {
    * @param to
    * @param packagedir
    * @param destructivedir
+   * @param options
    */
   public async delta(
     from: string,
     to: string,
     packagedir: string,
-    destructivedir: string
-  ) {
-    const gitDiffList: string = await gitDiff(from, to);
-    const { changedMetadataFilePathList, deletedMetadataFilePathList } =
-      this.generateDiffLists(gitDiffList);
+    destructivedir: string,
+    options: DeltaOptions = {}
+  ): Promise<DeltaResult> {
+    const {
+      gitobjects = false,
+      testclasses = false,
+      dryrun = false,
+      ignorefile,
+      ignoredestructivefile,
+      mdapi = false,
+      zipfile,
+      selection,
+      forcedPhases = {},
+      typeFilter = {},
+    } = options;
+    const project: SfdxProject = await readProject();
+    const projectPath: string = project.projectPath;
+    const registry: MetadataRegistry = await loadMetadataRegistry(projectPath);
+    const deltaIgnore: DeltaIgnore = await loadDeltaIgnore(
+      projectPath,
+      ignorefile,
+      ignoredestructivefile
+    );
+    if (gitobjects && !to) {
+      to = "HEAD";
+    }
+    const timings: { [step: string]: number } = {};
+    let stepStart: number = Date.now();
+    const endStep = (step: string) => {
+      timings[step] = Date.now() - stepStart;
+      stepStart = Date.now();
+    };
+    /** the selected files are read from their latest selected commit */
+    const selectedChanges: SelectedChanges =
+      selection && (await selectChanges(from, to, selection, projectPath));
+    const gitDiffList: GitDiffEntry[] = selectedChanges
+      ? selectedChanges.diffEntries
+      : await gitDiff(from, to, projectPath);
+    const { changedEntries, deletedEntries } = this.generateDiffLists(
+      gitDiffList,
+      project.packageDirectories,
+      deltaIgnore
+    );
+    if (selectedChanges) {
+      for (const deltaEntry of [...changedEntries, ...deletedEntries]) {
+        deltaEntry.revision = selectedChanges.revisions[deltaEntry.path];
+      }
+    }
+    /** the entries of the filtered out metadata types are ignored */
+    const filterTypes = (deltaEntries: DeltaEntry[]) => {
+      for (const deltaEntry of deltaEntries) {
+        deltaEntry.ignoredBy =
+          deltaEntry.ignoredBy ||
+          this.findTypeFilter(
+            deltaEntry.path,
+            project.packageDirectories,
+            registry,
+            typeFilter
+          );
+      }
+    };
+    filterTypes([...changedEntries, ...deletedEntries]);
+    endStep("git diff");
+    /** the metadata api format is converted from a temporary source package */
+    const convertToMdapiFormat: boolean = (mdapi || !!zipfile) && !dryrun;
+    const sourcedir: string = convertToMdapiFormat
+      ? fs.mkdtempSync(path.join(os.tmpdir(), "mdt-delta-"))
+      : packagedir;
+    const objectReader: GitObjectReader = gitCatFileReader(projectPath);
+    try {
+      const reader: SourceReader = gitobjects
+        ? gitRevisionReader(to, projectPath, objectReader)
+        : workingTreeReader(projectPath);
+      const revisionReaders: { [revision: string]: SourceReader } = {};
+      const entryReader = (deltaEntry: DeltaEntry): SourceReader => {
+        if (!deltaEntry.revision) {
+          return reader;
+        }
+        if (!revisionReaders[deltaEntry.revision]) {
+          revisionReaders[deltaEntry.revision] = gitRevisionReader(
+            deltaEntry.revision,
+            projectPath,
+            objectReader
+          );
+        }
+        return revisionReaders[deltaEntry.revision];
+      };
+      const redeployedEntries: DeltaEntry[] = await this.findRedeployedEntries(
+        entryReader,
+        deletedEntries,
+        project.packageDirectories,
+        registry,
+        deltaIgnore
+      );
+      filterTypes(redeployedEntries);
+      const packageManifest: Manifest = {};
+      const destructiveManifest: Manifest = {};
+      /** the files whose previous version defines removed entries */
+      const destructiveSourcePaths: string[] = [];
+      /** the files of unknown metadata types can't be added to the manifests */
+      const unresolvedPaths: string[] = [];
 
-    if (destructivedir) {
-      for (const metadataFilePath of deletedMetadataFilePathList) {
+      const handleDeletedEntry = async (deltaEntry: DeltaEntry) => {
+        const metadataFilePath: string = deltaEntry.path;
+        const metadataMember: MetadataMember = resolveMetadataMember(
+          metadataFilePath,
+          project.packageDirectories,
+          registry
+        );
+        this.describeDeltaEntry(
+          deltaEntry,
+          metadataMember,
+          destructivedir && !deltaEntry.ignoredBy && metadataMember
+            ? "destructive"
+            : "skip"
+        );
+        if (!deltaEntry.ignoredBy && !metadataMember) {
+          unresolvedPaths.push(metadataFilePath);
+        }
+        if (deltaEntry.action === "skip") {
+          return;
+        }
+        addManifestMember(destructiveManifest, metadataMember);
+        if (dryrun) {
+          return;
+        }
         await mkdirRecursive(
           `${destructivedir}/${substringBeforeLast(metadataFilePath, "/")}`
         );
-        const fileContent: string = await gitShow(from, metadataFilePath);
+        const fileContent: Buffer = await objectReader.readFile(
+          from,
+          metadataFilePath
+        );
+        if (!fileContent) {
+          throw `Error file "${metadataFilePath}" not found in "${from}"`;
+        }
         await writeFile(`${destructivedir}/${metadataFilePath}`, fileContent);
-      }
-    }
-    for (const metadataFilePath of changedMetadataFilePathList) {
-      await mkdirRecursive(
-        `${packagedir}/${substringBeforeLast(metadataFilePath, "/")}`
+      };
+      await mapWithConcurrency(
+        deletedEntries.filter(
+          (deltaEntry) => !redeployedEntries.includes(deltaEntry)
+        ),
+        DELTA_CONCURRENCY,
+        handleDeletedEntry
       );
+      endStep("destructive changes");
 
-      const folderPath: string = substringBeforeLast(metadataFilePath, "/");
-      const metadataFolderPath: string = substringBeforeNthChar(
-        metadataFilePath,
-        "/",
-        4
-      );
-      switch (metadataFolderPath) {
-        /** handle aura components */
-        case `${FMD_FOLDER}/aura`:
-          const auraFileNames = fs.readdirSync(`${folderPath}`);
-          for (const auraFileName of auraFileNames) {
-            await copyFile(
-              `${folderPath}/${auraFileName}`,
-              `${packagedir}/${folderPath}/${auraFileName}`
-            );
-          }
-          break;
-        /** handle lwc components */
-        case `${FMD_FOLDER}/lwc`:
-          if (folderPath !== `${FMD_FOLDER}/lwc`) {
-            const lwcFileNames = fs.readdirSync(`${folderPath}`);
-            for (const lwcFileName of lwcFileNames) {
-              await copyFile(
-                `${folderPath}/${lwcFileName}`,
-                `${packagedir}/${folderPath}/${lwcFileName}`
-              );
-            }
-          }
-          break;
-        /** handle experience bundles */
-        case `${FMD_FOLDER}/experiences`:
-          let metadataTypeFolderPath: string = substringBeforeNthChar(
-            metadataFilePath,
-            "/",
-            5
+      const { requiredEntries, changedPicklists } =
+        await this.findPicklistRecordTypes(
+          entryReader,
+          changedEntries,
+          project.packageDirectories,
+          registry,
+          deltaIgnore
+        );
+      filterTypes(requiredEntries);
+
+      const handleChangedEntry = async (deltaEntry: DeltaEntry) => {
+        const metadataFilePath: string = deltaEntry.path;
+        const sourceReader: SourceReader = entryReader(deltaEntry);
+        const metadataMember: MetadataMember = resolveMetadataMember(
+          metadataFilePath,
+          project.packageDirectories,
+          registry
+        );
+        const metadataFolder: MetadataFolder = resolveMetadataFolder(
+          metadataFilePath,
+          project.packageDirectories,
+          registry
+        );
+        const metadataType: MetadataType =
+          metadataFolder && resolveMetadataType(metadataFolder.parts, registry);
+        const strategy: string = metadataType ? metadataType.strategy : "file";
+        if (deltaEntry.ignoredBy) {
+          this.describeDeltaEntry(deltaEntry, metadataMember, "skip");
+          return;
+        } else if (strategy === "bundle") {
+          this.describeDeltaEntry(
+            deltaEntry,
+            metadataMember,
+            metadataMember ? "bundle" : "skip"
           );
-          if (fs.lstatSync(metadataTypeFolderPath).isFile()) {
-            metadataTypeFolderPath = substringBefore(metadataFilePath, ".");
-          }
-          await copyFile(
-            `${metadataTypeFolderPath}.site-meta.xml`,
-            `${packagedir}/${metadataTypeFolderPath}.site-meta.xml`
+        } else if (!metadataMember) {
+          this.describeDeltaEntry(deltaEntry, metadataMember, "skip");
+          unresolvedPaths.push(metadataFilePath);
+          return;
+        } else {
+          this.describeDeltaEntry(
+            deltaEntry,
+            metadataMember,
+            strategy === "diff" ? "diff" : "copy"
+          );
+        }
+        /** foldered components are deployed with their folders */
+        const folderMetaFiles: string[] = await this.listFolderMetaFiles(
+          sourceReader,
+          metadataFolder,
+          metadataType,
+          deltaIgnore.package
+        );
+        for (const folderMetaFile of folderMetaFiles) {
+          addManifestMember(
+            packageManifest,
+            resolveMetadataMember(
+              folderMetaFile,
+              project.packageDirectories,
+              registry
+            )
+          );
+        }
+        /** the complex metadata are diffed even without writing them */
+        if (dryrun && strategy !== "diff") {
+          addManifestMember(packageManifest, metadataMember);
+          return;
+        }
+
+        if (!dryrun) {
+          await mkdirRecursive(
+            `${sourcedir}/${substringBeforeLast(metadataFilePath, "/")}`
           );
-          const expDirNames = fs.readdirSync(`${metadataTypeFolderPath}`);
-          for (const expDirName of expDirNames) {
-            const expFileNames = fs.readdirSync(
-              `${metadataTypeFolderPath}/${expDirName}`
+          for (const folderMetaFile of folderMetaFiles) {
+            await copySourceFile(
+              sourceReader,
+              folderMetaFile,
+              `${sourcedir}/${folderMetaFile}`
             );
-            for (const expFileName of expFileNames) {
-              await mkdirRecursive(
-                `${packagedir}/${metadataTypeFolderPath}/${expDirName}`
-              );
-              await copyFile(
-                `${metadataTypeFolderPath}/${expDirName}/${expFileName}`,
-                `${packagedir}/${metadataTypeFolderPath}/${expDirName}/${expFileName}`
+          }
+        }
+        let diffEntries: {
+          changedEntries: MetadataEntry[];
+          deletedEntries: MetadataEntry[];
+        };
+        switch (strategy) {
+          /** handle bundles */
+          case "bundle":
+            await this.copyBundle(
+              sourceReader,
+              metadataFolder,
+              metadataType,
+              sourcedir,
+              deltaIgnore.package
+            );
+            break;
+          /** handle decomposed children */
+          case "child":
+            if (metadataType.parentMember) {
+              const parentName: string = metadataFolder.parts[1];
+              const parentFilePath: string = `${
+                metadataFolder.metadataFolderPath
+              }/${parentName}/${parentName}.${
+                registry[metadataFolder.directoryName].suffix
+              }-meta.xml`;
+              await copySourceFile(
+                sourceReader,
+                parentFilePath,
+                `${sourcedir}/${parentFilePath}`
               );
             }
-          }
-          break;
-        /** handle objects */
-        case `${FMD_FOLDER}/objects`:
-          const isRecordTypePatern = new RegExp(
-            `${FMD_FOLDER}/objects/[^/]+/recordTypes`
-          );
-          // handle record types
-          if (isRecordTypePatern.test(`${folderPath}`)) {
-            await copyDiffOfComplexMetadata(
+            await this.copyMetadataFile(
+              sourceReader,
+              metadataFilePath,
+              sourcedir
+            );
+            break;
+          /** handle complex metadata */
+          case "diff":
+            diffEntries = await copyDiffOfComplexMetadata(
               from,
-              to,
+              deltaEntry.revision || to,
               `${metadataFilePath}`,
               {
-                rootTagName: "RecordType",
-                requiredTagNames: [
-                  "fullName",
-                  "active",
-                  "label",
-                  "businessProcess",
-                ],
+                rootTagName: metadataType.rootTagName,
+                requiredTagNames: metadataType.requiredTagNames || [],
+                identityKeys: metadataType.identityKeys,
+                revocations: metadataType.revocations,
+                requiredItems: this.requiredMetadataItems(
+                  metadataFolder,
+                  metadataType,
+                  changedPicklists
+                ),
               },
-              `${packagedir}`
-            );
-          } else {
-            await copyFile(
-              `${metadataFilePath}`,
-              `${packagedir}/${metadataFilePath}`
-            );
-          }
-          break;
-        /** handle object translations */
-        case `${FMD_FOLDER}/objectTranslations`:
-          const objTraFolderName = substringAfterLast(folderPath, "/");
-          await copyFile(
-            `${folderPath}/${objTraFolderName}.objectTranslation-meta.xml`,
-            `${packagedir}/${folderPath}/${objTraFolderName}.objectTranslation-meta.xml`
-          );
-          await copyFile(
-            `${metadataFilePath}`,
-            `${packagedir}/${metadataFilePath}`
-          );
-          break;
-        /** handle static resources */
-        case `${FMD_FOLDER}/staticresources`:
-          const staticResourceFolder = `${FMD_FOLDER}/staticresources`;
-          if (folderPath !== staticResourceFolder) {
-            const subFolderPath = folderPath.replace(
-              staticResourceFolder + "/",
-              ""
-            );
-            const resourceFolderName = substringBefore(
-              subFolderPath + "/",
-              "/"
+              {
+                packageDir: sourcedir,
+                destructiveDir: metadataType.destructive
+                  ? destructivedir
+                  : undefined,
+                projectPath,
+                objectReader,
+                dryrun,
+              }
             );
-            await copyFile(
-              `${staticResourceFolder}/${resourceFolderName}.resource-meta.xml`,
-              `${packagedir}/${staticResourceFolder}/${resourceFolderName}.resource-meta.xml`
+            break;
+          /** handle all other metadata */
+          default:
+            await this.copyMetadataFile(
+              sourceReader,
+              metadataFilePath,
+              sourcedir
             );
-          } else {
-            if (!metadataFilePath.endsWith(".resource-meta.xml")) {
-              const resourceName = substringBeforeLast(
-                substringAfterLast(metadataFilePath, "/"),
-                "."
-              );
-              await copyFile(
-                `${folderPath}/${resourceName}.resource-meta.xml`,
-                `${packagedir}/${folderPath}/${resourceName}.resource-meta.xml`
-              );
-            }
-          }
-          await copyFile(
-            `${metadataFilePath}`,
-            `${packagedir}/${metadataFilePath}`
-          );
-          break;
-        /** handle custom labels */
-        case `${FMD_FOLDER}/labels`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "CustomLabels", requiredTagNames: [] },
-            `${packagedir}`,
-            destructivedir
-          );
-          break;
-        /** handle profiles */
-        case `${FMD_FOLDER}/profiles`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "Profile", requiredTagNames: [] },
-            `${packagedir}`
-          );
-          break;
-        /** handle sharing rules */
-        case `${FMD_FOLDER}/sharingRules`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "SharingRules", requiredTagNames: [] },
-            `${packagedir}`,
-            destructivedir
-          );
-          break;
-        /** handle assignment rules */
-        case `${FMD_FOLDER}/assignmentRules`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "AssignmentRules", requiredTagNames: [] },
-            `${packagedir}`,
-            destructivedir
-          );
-          break;
-        /** handle auto response rules */
-        case `${FMD_FOLDER}/autoResponseRules`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "AutoResponseRules", requiredTagNames: [] },
-            `${packagedir}`,
-            destructivedir
-          );
-          break;
-        /** handle matching rules */
-        case `${FMD_FOLDER}/matchingRules`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "MatchingRules", requiredTagNames: [] },
-            `${packagedir}`,
-            destructivedir
-          );
-          break;
-        /** handle translations */
-        case `${FMD_FOLDER}/translations`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "Translations", requiredTagNames: [] },
-            `${packagedir}`
+            break;
+        }
+
+        /** add the changed members to the manifests */
+        if (diffEntries && diffEntries.deletedEntries.length > 0) {
+          destructiveSourcePaths.push(metadataFilePath);
+        }
+        if (diffEntries) {
+          this.addDiffEntriesToManifests(
+            metadataFilePath,
+            project.packageDirectories,
+            registry,
+            diffEntries,
+            packageManifest,
+            destructiveManifest
           );
-          break;
-        /** handle workflow rules */
-        case `${FMD_FOLDER}/workflows`:
-          await copyDiffOfComplexMetadata(
-            from,
-            to,
-            `${metadataFilePath}`,
-            { rootTagName: "Workflow", requiredTagNames: [] },
-            `${packagedir}`,
-            destructivedir
+        } else {
+          addManifestMember(packageManifest, metadataMember);
+        }
+      };
+      await mapWithConcurrency(
+        [...redeployedEntries, ...changedEntries, ...requiredEntries],
+        DELTA_CONCURRENCY,
+        handleChangedEntry
+      );
+      endStep("package");
+
+      /** split the destructive changes by phase */
+      const previousContents: Buffer[] =
+        Object.keys(destructiveManifest).length > 0
+          ? await mapWithConcurrency(
+              [...changedEntries, ...requiredEntries].filter(
+                (deltaEntry) =>
+                  deltaEntry.action !== "skip" &&
+                  !destructiveSourcePaths.includes(deltaEntry.path)
+              ),
+              DELTA_CONCURRENCY,
+              (deltaEntry) =>
+                objectReader.readFile(
+                  from,
+                  deltaEntry.renamedFrom || deltaEntry.path
+                )
+            )
+          : [];
+      const destructiveChanges: DestructiveChanges = splitDestructiveChanges(
+        destructiveManifest,
+        previousContents
+          .filter((content) => content)
+          .map((content) => content.toString("utf8")),
+        forcedPhases
+      );
+      endStep("destructive phases");
+
+      /** write the manifests */
+      if (!dryrun) {
+        await mkdirRecursive(sourcedir);
+        await writeManifest(
+          `${sourcedir}/package.xml`,
+          packageManifest,
+          project.sourceApiVersion
+        );
+      }
+      if (destructivedir && !dryrun) {
+        await mkdirRecursive(destructivedir);
+        await writeManifest(
+          `${destructivedir}/package.xml`,
+          {},
+          project.sourceApiVersion
+        );
+        await writeManifest(
+          `${destructivedir}/destructiveChangesPre.xml`,
+          destructiveChanges.pre,
+          project.sourceApiVersion
+        );
+        await writeManifest(
+          `${destructivedir}/destructiveChangesPost.xml`,
+          destructiveChanges.post,
+          project.sourceApiVersion
+        );
+      }
+
+      if (convertToMdapiFormat) {
+        await mkdirRecursive(packagedir);
+        await convertToMdapi(
+          sourcedir,
+          project.packageDirectories,
+          packagedir,
+          registry
+        );
+        await writeManifest(
+          `${packagedir}/package.xml`,
+          packageManifest,
+          project.sourceApiVersion
+        );
+        if (Object.keys(destructiveChanges.pre).length > 0) {
+          await writeManifest(
+            `${packagedir}/destructiveChangesPre.xml`,
+            destructiveChanges.pre,
+            project.sourceApiVersion
           );
-          break;
-        /** handle all other metadata */
-        default:
-          await copyFile(
-            `${metadataFilePath}`,
-            `${packagedir}/${metadataFilePath}`
+        }
+        if (Object.keys(destructiveChanges.post).length > 0) {
+          await writeManifest(
+            `${packagedir}/destructiveChangesPost.xml`,
+            destructiveChanges.post,
+            project.sourceApiVersion
           );
-          break;
+        }
+        if (zipfile) {
+          await zipDirectory(packagedir, zipfile);
+        }
+      }
+      endStep("manifests");
+
+      const result: DeltaResult = {
+        entries: [...deletedEntries, ...changedEntries, ...requiredEntries],
+        package: packageManifest,
+        destructiveChanges: destructiveManifest,
+        destructiveChangesPre: destructiveChanges.pre,
+        destructiveChangesPost: destructiveChanges.post,
+      };
+      if (typeFilter.include || typeFilter.exclude) {
+        result.excludedTypes = {};
+        for (const deltaEntry of result.entries) {
+          if (
+            deltaEntry.type &&
+            (deltaEntry.ignoredBy === "--include-types" ||
+              deltaEntry.ignoredBy === "--exclude-types")
+          ) {
+            addManifestMember(result.excludedTypes, {
+              type: deltaEntry.type,
+              member: deltaEntry.member,
+            });
+          }
+        }
+      }
+      if (unresolvedPaths.length > 0) {
+        result.unresolvedPaths = unresolvedPaths;
+      }
+      if (selectedChanges) {
+        result.selectedCommits = selectedChanges.selectedCommits;
+        result.excludedChanges = selectedChanges.excludedChanges;
+      }
+
+      /** detect the test classes of the changed apex classes & triggers */
+      if (testclasses) {
+        result.testClasses = await findImpactedTestClasses(
+          reader,
+          project.packageDirectories,
+          [
+            ...(packageManifest["ApexClass"] || []),
+            ...(packageManifest["ApexTrigger"] || []),
+          ]
+        );
+        endStep("test classes");
       }
+      result.timings = timings;
+      return result;
+    } finally {
+      objectReader.close();
+      if (convertToMdapiFormat) {
+        await rmdirRecursive(sourcedir);
+      }
+    }
+  }
+
+  /**
+   * find the deleted entries of the bundles which still exist
+   * their bundle is redeployed instead of being destroyed
+   * the package ignore files apply to the redeployed entries
+   * @param entryReader the reader of the content of each entry
+   * @param deletedEntries
+   * @param packageDirectories
+   * @param registry
+   * @param deltaIgnore
+   */
+  private async findRedeployedEntries(
+    entryReader: (deltaEntry: DeltaEntry) => SourceReader,
+    deletedEntries: DeltaEntry[],
+    packageDirectories: string[],
+    registry: MetadataRegistry,
+    deltaIgnore: DeltaIgnore
+  ): Promise<DeltaEntry[]> {
+    const redeployedEntries: DeltaEntry[] = [];
+    for (const deltaEntry of deletedEntries) {
+      const metadataFolder: MetadataFolder = resolveMetadataFolder(
+        deltaEntry.path,
+        packageDirectories,
+        registry
+      );
+      const metadataType: MetadataType =
+        metadataFolder && resolveMetadataType(metadataFolder.parts, registry);
+      if (
+        metadataType &&
+        metadataType.strategy === "bundle" &&
+        (
+          await this.listBundleFiles(
+            entryReader(deltaEntry),
+            metadataFolder,
+            metadataType
+          )
+        ).length > 0
+      ) {
+        deltaEntry.ignoredBy = findIgnoreFile(
+          deltaIgnore.package,
+          deltaEntry.path
+        );
+        redeployedEntries.push(deltaEntry);
+      }
+    }
+    return redeployedEntries;
+  }
 
-      /** copy meta file if exists */
-      const metaFileName = `${metadataFilePath}-meta.xml`;
-      if (fs.existsSync(`${metaFileName}`)) {
-        await copyFile(`${metaFileName}`, `${packagedir}/${metaFileName}`);
+  /**
+   * find the record types restricting the values of the changed picklists
+   * the record types of the parent object referencing a changed picklist in
+   * their picklistValues are required by the delta
+   * @param entryReader the reader of the content of each entry
+   * @param changedEntries
+   * @param packageDirectories
+   * @param registry
+   * @param deltaIgnore
+   */
+  private async findPicklistRecordTypes(
+    entryReader: (deltaEntry: DeltaEntry) => SourceReader,
+    changedEntries: DeltaEntry[],
+    packageDirectories: string[],
+    registry: MetadataRegistry,
+    deltaIgnore: DeltaIgnore
+  ): Promise<{
+    requiredEntries: DeltaEntry[];
+    changedPicklists: { [objectPath: string]: string[] };
+  }> {
+    /** the changed picklist fields indexed by object path & field name */
+    const picklistEntries: {
+      [objectPath: string]: { [fieldName: string]: DeltaEntry };
+    } = {};
+    for (const deltaEntry of changedEntries) {
+      const metadataFolder: MetadataFolder = resolveMetadataFolder(
+        deltaEntry.path,
+        packageDirectories,
+        registry
+      );
+      const metadataType: MetadataType =
+        metadataFolder && resolveMetadataType(metadataFolder.parts, registry);
+      if (
+        deltaEntry.ignoredBy ||
+        !metadataType ||
+        metadataType.xmlName !== "CustomField"
+      ) {
+        continue;
+      }
+      const field = x2jParser.parse(
+        (await entryReader(deltaEntry).readFile(deltaEntry.path)).toString(
+          "utf8"
+        ),
+        x2jOptions
+      );
+      if (
+        !field.CustomField ||
+        !PICKLIST_FIELD_TYPES.includes(field.CustomField.type)
+      ) {
+        continue;
       }
+      const objectPath: string = `${metadataFolder.metadataFolderPath}/${metadataFolder.parts[1]}`;
+      const fieldName: string = substringBefore(
+        metadataFolder.parts[metadataFolder.parts.length - 1],
+        "."
+      );
+      picklistEntries[objectPath] = picklistEntries[objectPath] || {};
+      picklistEntries[objectPath][fieldName] = deltaEntry;
+    }
 
-      /** copy non meta file if only meta file was modified */
-      if (metadataFilePath.endsWith("-meta.xml")) {
-        const metaXMLIndex = metadataFilePath.indexOf("-meta.xml");
-        const metadataFile = metadataFilePath.substring(0, metaXMLIndex);
-        if (fs.existsSync(`${metadataFile}`)) {
-          await copyFile(`${metadataFile}`, `${packagedir}/${metadataFile}`);
+    const requiredEntries: DeltaEntry[] = [];
+    const changedPicklists: { [objectPath: string]: string[] } = {};
+    const changedPaths: string[] = changedEntries.map(
+      (deltaEntry) => deltaEntry.path
+    );
+    for (const objectPath of Object.keys(picklistEntries)) {
+      const fieldEntries = picklistEntries[objectPath];
+      changedPicklists[objectPath] = Object.keys(fieldEntries);
+      const recordTypesPath: string = `${objectPath}/recordTypes`;
+      const reader: SourceReader = entryReader(
+        fieldEntries[changedPicklists[objectPath][0]]
+      );
+      if (!(await reader.exists(recordTypesPath))) {
+        continue;
+      }
+      for (const fileName of await reader.listDirectory(recordTypesPath)) {
+        const recordTypePath: string = `${recordTypesPath}/${fileName}`;
+        if (changedPaths.includes(recordTypePath)) {
+          continue;
+        }
+        const recordType = x2jParser.parse(
+          (await reader.readFile(recordTypePath)).toString("utf8"),
+          x2jOptions
+        );
+        const picklist: string = []
+          .concat(
+            (recordType.RecordType && recordType.RecordType.picklistValues) ||
+              []
+          )
+          .map((picklistValues) => picklistValues.picklist)
+          .find((picklistName) => fieldEntries.hasOwnProperty(picklistName));
+        if (picklist) {
+          requiredEntries.push({
+            path: recordTypePath,
+            status: "required",
+            requiredBy: fieldEntries[picklist].path,
+            revision: fieldEntries[picklist].revision,
+            ignoredBy: findIgnoreFile(deltaIgnore.package, recordTypePath),
+          });
         }
       }
     }
+    return { requiredEntries, changedPicklists };
+  }
+
+  /**
+   * select the unchanged entries of a complex metadata required by the delta
+   * record types keep the values of the changed picklists of their object
+   * workflows keep the actions referenced by their changed rules
+   * @param metadataFolder
+   * @param metadataType
+   * @param changedPicklists the changed picklists indexed by object path
+   */
+  private requiredMetadataItems(
+    metadataFolder: MetadataFolder,
+    metadataType: MetadataType,
+    changedPicklists: { [objectPath: string]: string[] }
+  ): (item: MetadataItem, changedItems: MetadataItem[]) => boolean {
+    switch (metadataType.xmlName) {
+      case "RecordType":
+        const picklists: string[] =
+          changedPicklists[
+            `${metadataFolder.metadataFolderPath}/${metadataFolder.parts[1]}`
+          ] || [];
+        return (item) =>
+          item.tagName === "picklistValues" &&
+          typeof item.picklist === "string" &&
+          picklists.includes(item.picklist);
+      case "Workflow":
+        return isReferencedWorkflowAction;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * find the type filter flag which excludes a path
+   * a path is kept if its type, its parent type or one of its child types is
+   * included, and none of them is excluded
+   * the paths of unresolved members aren't included
+   * @param filePath
+   * @param packageDirectories
+   * @param registry
+   * @param typeFilter
+   */
+  private findTypeFilter(
+    filePath: string,
+    packageDirectories: string[],
+    registry: MetadataRegistry,
+    typeFilter: TypeFilter
+  ): string | undefined {
+    const metadataMember: MetadataMember = resolveMetadataMember(
+      filePath,
+      packageDirectories,
+      registry
+    );
+    if (!metadataMember) {
+      return typeFilter.include ? "--include-types" : undefined;
+    }
+    if (!typeFilter.include && !typeFilter.exclude) {
+      return undefined;
+    }
+    const metadataFolder: MetadataFolder = resolveMetadataFolder(
+      filePath,
+      packageDirectories,
+      registry
+    );
+    const folderType: MetadataType = registry[metadataFolder.directoryName];
+    const childXmlNames: { [tagName: string]: string } =
+      folderType.childXmlNames || {};
+    const typeNames: string[] = [
+      metadataMember.type,
+      folderType.xmlName,
+      ...Object.keys(childXmlNames).map((tagName) => childXmlNames[tagName]),
+    ];
+    if (
+      typeFilter.include &&
+      !typeNames.some((typeName) => typeFilter.include.includes(typeName))
+    ) {
+      return "--include-types";
+    }
+    if (
+      typeFilter.exclude &&
+      typeNames.some((typeName) => typeFilter.exclude.includes(typeName))
+    ) {
+      return "--exclude-types";
+    }
+    return undefined;
+  }
+
+  /**
+   * set the metadata member & the handling of a delta entry
+   * @param deltaEntry
+   * @param metadataMember
+   * @param action
+   */
+  private describeDeltaEntry(
+    deltaEntry: DeltaEntry,
+    metadataMember: MetadataMember,
+    action: DeltaAction
+  ) {
+    if (metadataMember) {
+      deltaEntry.type = metadataMember.type;
+      deltaEntry.member = metadataMember.member;
+    }
+    deltaEntry.action = action;
+  }
+
+  /**
+   * format a delta entry for the console output
+   * @param deltaEntry
+   */
+  private formatDeltaEntry(deltaEntry: DeltaEntry): string {
+    let status: string;
+    switch (deltaEntry.status) {
+      case "deleted":
+        status = chalk.redBright("DELETED");
+        break;
+      case "renamed":
+        status = deltaEntry.renamedTo
+          ? `${chalk.whiteBright("RENAMED TO")} ${chalk.green(
+              deltaEntry.renamedTo
+            )}`
+          : `${chalk.whiteBright("RENAMED FROM")} ${chalk.green(
+              deltaEntry.renamedFrom
+            )}`;
+        break;
+      case "added":
+        status = chalk.cyanBright("ADDED");
+        break;
+      case "required":
+        status = `${chalk.magentaBright("REQUIRED BY")} ${chalk.green(
+          deltaEntry.requiredBy
+        )}`;
+        break;
+      default:
+        status = chalk.yellowBright("MODIFIED");
+        break;
+    }
+    const member: string = deltaEntry.type
+      ? ` ${deltaEntry.type}${deltaEntry.member ? `:${deltaEntry.member}` : ""}`
+      : "";
+    const ignoredBy: string = deltaEntry.ignoredBy
+      ? ` ignored by ${deltaEntry.ignoredBy}`
+      : "";
+    return `${chalk.green(deltaEntry.path)} ${status} ${chalk.gray(
+      `[${deltaEntry.action}]${member}${ignoredBy}`
+    )}`;
+  }
+
+  /**
+   * add the entries of a complex metadata diff to the manifests
+   * @param metadataFilePath
+   * @param packageDirectories
+   * @param registry
+   * @param diffEntries
+   * @param packageManifest
+   * @param destructiveManifest
+   */
+  private addDiffEntriesToManifests(
+    metadataFilePath: string,
+    packageDirectories: string[],
+    registry: MetadataRegistry,
+    diffEntries: {
+      changedEntries: MetadataEntry[];
+      deletedEntries: MetadataEntry[];
+    },
+    packageManifest: Manifest,
+    destructiveManifest: Manifest
+  ) {
+    for (const entry of diffEntries.changedEntries) {
+      // entries without child type are deployed with their parent
+      addManifestMember(
+        packageManifest,
+        resolveChildMetadataMember(
+          metadataFilePath,
+          entry.tagName,
+          entry.fullName,
+          packageDirectories,
+          registry
+        ) ||
+          resolveMetadataMember(metadataFilePath, packageDirectories, registry)
+      );
+    }
+    for (const entry of diffEntries.deletedEntries) {
+      addManifestMember(
+        destructiveManifest,
+        resolveChildMetadataMember(
+          metadataFilePath,
+          entry.tagName,
+          entry.fullName,
+          packageDirectories,
+          registry
+        )
+      );
+    }
+  }
+
+  /**
+   * copy a metadata file with its companion file
+   * @param reader
+   * @param metadataFilePath
+   * @param packagedir
+   */
+  private async copyMetadataFile(
+    reader: SourceReader,
+    metadataFilePath: string,
+    packagedir: string
+  ) {
+    await copySourceFile(
+      reader,
+      metadataFilePath,
+      `${packagedir}/${metadataFilePath}`
+    );
+
+    /** copy meta file if exists */
+    const metaFileName = `${metadataFilePath}-meta.xml`;
+    if (await reader.exists(metaFileName)) {
+      await copySourceFile(
+        reader,
+        metaFileName,
+        `${packagedir}/${metaFileName}`
+      );
+    }
+
+    /** copy non meta file if only meta file was modified */
+    if (metadataFilePath.endsWith("-meta.xml")) {
+      const metaXMLIndex = metadataFilePath.indexOf("-meta.xml");
+      const metadataFile = metadataFilePath.substring(0, metaXMLIndex);
+      if (await reader.exists(metadataFile)) {
+        await copySourceFile(
+          reader,
+          metadataFile,
+          `${packagedir}/${metadataFile}`
+        );
+      }
+    }
+  }
+
+  /**
+   * list the meta files of the folders of a foldered component
+   * nested folders have a meta file at each level, the ignored ones are skipped
+   * @param reader
+   * @param metadataFolder
+   * @param metadataType
+   * @param ignoreFiles
+   */
+  private async listFolderMetaFiles(
+    reader: SourceReader,
+    metadataFolder: MetadataFolder,
+    metadataType: MetadataType,
+    ignoreFiles: IgnoreFile[]
+  ): Promise<string[]> {
+    const folderMetaFiles: string[] = [];
+    if (!metadataType || !metadataType.inFolder) {
+      return folderMetaFiles;
+    }
+    const parts: string[] = metadataFolder.parts;
+    for (let i = 2; i < parts.length; i++) {
+      const folderMetaFile: string = `${
+        metadataFolder.metadataFolderPath
+      }/${parts.slice(1, i).join("/")}.${metadataType.suffix}Folder-meta.xml`;
+      if (
+        !findIgnoreFile(ignoreFiles, folderMetaFile) &&
+        (await reader.exists(folderMetaFile))
+      ) {
+        folderMetaFiles.push(folderMetaFile);
+      }
+    }
+    return folderMetaFiles;
+  }
+
+  /**
+   * list the files of a bundle
+   * a bundle is a folder and the files sharing its name in the metadata folder
+   * @param reader
+   * @param metadataFolder
+   * @param metadataType
+   */
+  private async listBundleFiles(
+    reader: SourceReader,
+    metadataFolder: MetadataFolder,
+    metadataType: MetadataType
+  ): Promise<string[]> {
+    const { metadataFolderPath, parts } = metadataFolder;
+    // files at the root of a folder of bundles without suffix are not bundles
+    if (
+      (parts.length === 2 && !metadataType.suffix) ||
+      !(await reader.exists(metadataFolderPath))
+    ) {
+      return [];
+    }
+    const bundleName: string = substringBefore(`${parts[1]}.`, ".");
+    const bundlePath: string = `${metadataFolderPath}/${bundleName}`;
+    const bundleFilePaths: string[] = (
+      await reader.listDirectory(metadataFolderPath)
+    )
+      .filter((fileName) => fileName.startsWith(`${bundleName}.`))
+      .map((fileName) => `${metadataFolderPath}/${fileName}`);
+    if (await reader.exists(bundlePath)) {
+      for (const fileName of await reader.listFiles(bundlePath)) {
+        bundleFilePaths.push(`${bundlePath}/${fileName}`);
+      }
+    }
+    return bundleFilePaths;
+  }
+
+  /**
+   * copy all the files of a bundle
+   * the ignored files of the bundle are not copied
+   * @param reader
+   * @param metadataFolder
+   * @param metadataType
+   * @param packagedir
+   * @param ignoreFiles
+   */
+  private async copyBundle(
+    reader: SourceReader,
+    metadataFolder: MetadataFolder,
+    metadataType: MetadataType,
+    packagedir: string,
+    ignoreFiles: IgnoreFile[]
+  ) {
+    const bundleFilePaths: string[] = await this.listBundleFiles(
+      reader,
+      metadataFolder,
+      metadataType
+    );
+    for (const bundleFilePath of bundleFilePaths) {
+      if (findIgnoreFile(ignoreFiles, bundleFilePath)) {
+        continue;
+      }
+      await mkdirRecursive(
+        `${packagedir}/${substringBeforeLast(bundleFilePath, "/")}`
+      );
+      await copySourceFile(
+        reader,
+        bundleFilePath,
+        `${packagedir}/${bundleFilePath}`
+      );
+    }
   }
 
   /**
    * generate diff lists
+   * only the files of the package directories are kept
+   * the ignored files are kept with the ignore file which excluded them
    * @param gitDiffList
+   * @param packageDirectories
+   * @param deltaIgnore
    */
-  private generateDiffLists(gitDiffList: string) {
-    const changedMetadataFilePathList: string[] = [];
-    const deletedMetadataFilePathList: string[] = [];
-    gitDiffList.split("\n").forEach((diffFileLine) => {
-      const diffFileParts: string[] = diffFileLine.split(/\t/);
-      if (diffFileParts.length > 1 && diffFileParts[1].startsWith(FMD_FOLDER)) {
-        switch (diffFileParts[0].charAt(0)) {
-          case "D":
-            console.log(
-              chalk.green(diffFileParts[1]) + " " + chalk.redBright("DELETED")
+  private generateDiffLists(
+    gitDiffList: GitDiffEntry[],
+    packageDirectories: string[],
+    deltaIgnore: DeltaIgnore
+  ) {
+    const changedEntries: DeltaEntry[] = [];
+    const deletedEntries: DeltaEntry[] = [];
+    const isPackageFile = (filePath: string): boolean =>
+      findPackageDirectory(filePath, packageDirectories) !== undefined;
+    const changedEntry = (entry: DeltaEntry): DeltaEntry => ({
+      ...entry,
+      ignoredBy: findIgnoreFile(deltaIgnore.package, entry.path),
+    });
+    const deletedEntry = (entry: DeltaEntry): DeltaEntry => ({
+      ...entry,
+      ignoredBy: findIgnoreFile(deltaIgnore.destructive, entry.path),
+    });
+    for (const gitDiffEntry of gitDiffList) {
+      switch (gitDiffEntry.status) {
+        case "D":
+          if (isPackageFile(gitDiffEntry.path)) {
+            deletedEntries.push(
+              deletedEntry({ path: gitDiffEntry.path, status: "deleted" })
             );
-            deletedMetadataFilePathList.push(diffFileParts[1]);
-            break;
-          case "R":
-            console.log(
-              chalk.green(diffFileParts[1]) +
-                " " +
-                chalk.whiteBright("RENAMED TO") +
-                " " +
-                chalk.green(diffFileParts[2])
+          }
+          break;
+        case "R":
+          if (isPackageFile(gitDiffEntry.fromPath)) {
+            deletedEntries.push(
+              deletedEntry({
+                path: gitDiffEntry.fromPath,
+                status: "renamed",
+                renamedTo: gitDiffEntry.path,
+              })
             );
-            deletedMetadataFilePathList.push(diffFileParts[1]);
-            changedMetadataFilePathList.push(diffFileParts[2]);
-            break;
-          default:
-            console.log(
-              chalk.green(diffFileParts[1]) +
-                " " +
-                chalk.yellowBright("MODIFIED")
+          }
+          if (isPackageFile(gitDiffEntry.path)) {
+            changedEntries.push(
+              changedEntry({
+                path: gitDiffEntry.path,
+                status: "renamed",
+                renamedFrom: gitDiffEntry.fromPath,
+              })
             );
-            changedMetadataFilePathList.push(diffFileParts[1]);
-            break;
-        }
+          }
+          break;
+        case "A":
+        case "C":
+          if (isPackageFile(gitDiffEntry.path)) {
+            changedEntries.push(
+              changedEntry({ path: gitDiffEntry.path, status: "added" })
+            );
+          }
+          break;
+        default:
+          if (isPackageFile(gitDiffEntry.path)) {
+            changedEntries.push(
+              changedEntry({ path: gitDiffEntry.path, status: "modified" })
+            );
+          }
+          break;
       }
-    });
-    return { changedMetadataFilePathList, deletedMetadataFilePathList };
+    }
+    return { changedEntries, deletedEntries };
   }
 }
@@ -0,0 +1,91 @@
+import { flags, SfdxCommand } from "@salesforce/command";
+import { AnyJson } from "@salesforce/ts-types";
+import * as chalk from "chalk";
+
+import {
+  DeploymentStore,
+  DEPLOYMENT_STORES,
+  recordDeployedCommit,
+} from "../../../utils/deployments";
+import { SfdxProject, readProject } from "../../../utils/project";
+
+export default class Recorder extends SfdxCommand {
+  public static examples = [
+    `$ sfdx mdt:git:deployed -a {orgAlias} [-c {commit}]
+  Record the commit deployed to an org in the deployment state file
+  `,
+    `$ sfdx mdt:git:deployed -a {orgAlias} -s tag -r origin
+  Record the commit deployed to an org as a git tag pushed to origin
+  `,
+  ];
+
+  protected static flagsConfig = {
+    orgalias: flags.string({
+      char: "a",
+      required: true,
+      description: "The alias of the org where the commit was deployed",
+    }),
+    commit: flags.string({
+      char: "c",
+      default: "HEAD",
+      description: "The deployed branch or commit",
+    }),
+    deploystore: flags.enum({
+      char: "s",
+      options: DEPLOYMENT_STORES,
+      default: "file",
+      description:
+        "Where the deployed commits are recorded: a state file in the .sfdx folder or a git tag per org alias",
+    }),
+    remote: flags.string({
+      char: "r",
+      description: "The remote where to push the deployment tag",
+    }),
+  };
+
+  public async run(): Promise<AnyJson> {
+    this.ux.startSpinner(chalk.yellowBright("Recording deployed commit"));
+    let commit: string;
+    try {
+      commit = await this.record(
+        this.flags.orgalias,
+        this.flags.commit,
+        this.flags.deploystore,
+        this.flags.remote
+      );
+    } catch (e) {
+      // output error
+      this.ux.stopSpinner("❌");
+      this.ux.error(chalk.redBright(e));
+      return { success: false };
+    }
+    this.ux.stopSpinner("✔️");
+    this.ux.log(`${commit} deployed to ${this.flags.orgalias}`);
+
+    // Return an object to be displayed with --json
+    return { success: true, orgAlias: this.flags.orgalias, commit };
+  }
+
+  /**
+   * record the commit deployed to an org
+   * @param orgalias
+   * @param commit
+   * @param deploystore
+   * @param remote
+   */
+  public async record(
+    orgalias: string,
+    commit: string,
+    deploystore: DeploymentStore = "file",
+    remote?: string
+  ): Promise<string> {
+    const project: SfdxProject = await readProject();
+    return recordDeployedCommit(
+      project.projectPath,
+      orgalias,
+      commit,
+      deploystore,
+      remote
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { flags, SfdxCommand } from "@salesforce/command";
+import { AnyJson } from "@salesforce/ts-types";
+import * as chalk from "chalk";
+import * as path from "path";
+
+import {
+  PROFILE_METADATA_TYPES,
+  TRANSLATIONS_METADATA_TYPES,
+} from "../../../utils/adapt";
+import {
+  InventorySnapshot,
+  takeInventorySnapshot,
+} from "../../../utils/inventory";
+import { mkdirRecursive, writeFile } from "../../../utils/utilities";
+
+export default class Snapshotter extends SfdxCommand {
+  public static examples = [
+    `$ sfdx mdt:inventory:snapshot -u {sourceOrg} -f {outputfile}
+  Take a snapshot of the metadata inventory of an org used to adapt the profiles & translations
+  `,
+  ];
+
+  protected static flagsConfig = {
+    outputfile: flags.string({
+      char: "f",
+      required: true,
+      description: "The path of the json inventory file",
+    }),
+  };
+
+  protected static requiresUsername = true;
+
+  public async run(): Promise<AnyJson> {
+    this.ux.startSpinner(chalk.yellowBright("Taking inventory snapshot"));
+    let snapshot: InventorySnapshot;
+    try {
+      snapshot = await this.snapshot(this.flags.outputfile);
+    } catch (e) {
+      // output error
+      this.ux.stopSpinner("❌");
+      this.ux.error(chalk.redBright(e));
+      return { success: false };
+    }
+    this.ux.stopSpinner("✔️");
+    for (const metadataTypeName of Object.keys(snapshot.metadata)) {
+      this.ux.log(
+        `${metadataTypeName}: ${snapshot.metadata[metadataTypeName].length}`
+      );
+    }
+
+    // Return an object to be displayed with --json
+    return { success: true, outputFile: this.flags.outputfile };
+  }
+
+  /**
+   * take a snapshot of the metadata inventory of the org into a json file
+   * @param outputfile
+   */
+  public async snapshot(outputfile: string): Promise<InventorySnapshot> {
+    const snapshot: InventorySnapshot = await takeInventorySnapshot(
+      this.org.getConnection(),
+      [...PROFILE_METADATA_TYPES, ...TRANSLATIONS_METADATA_TYPES]
+    );
+    await mkdirRecursive(path.dirname(path.resolve(outputfile)));
+    await writeFile(outputfile, JSON.stringify(snapshot, null, 2));
+    return snapshot;
+  }
+}
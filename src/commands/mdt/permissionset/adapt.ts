@@ -0,0 +1,139 @@
+import { flags, SfdxCommand } from "@salesforce/command";
+import { AnyJson } from "@salesforce/ts-types";
+import * as chalk from "chalk";
+import * as path from "path";
+
+import { listMatchingFiles } from "../../../utils/utilities";
+import {
+  PERMISSION_SET_ACCESS_FILTERS,
+  PROFILE_METADATA_TYPES,
+  FileAdaptation,
+  adaptPermissionFile,
+  formatFileAdaptation,
+} from "../../../utils/adapt";
+import { MetadataInventory, loadInventory } from "../../../utils/inventory";
+
+const PERMISSION_SET_FILE_SUFFIXES = [
+  ".permissionset-meta.xml",
+  ".permissionset",
+  ".mutingpermissionset-meta.xml",
+  ".mutingpermissionset",
+];
+
+const PERMISSION_SET_ROOT_TAG_NAMES = ["PermissionSet", "MutingPermissionSet"];
+
+export default class Adapter extends SfdxCommand {
+  public static examples = [
+    `$ sfdx mdt:permissionset:adapt -p {sourcepath} -d {outputdirectory}
+    Adapt a permission set or a muting permission set to be deployed to an org
+  `,
+    `$ sfdx mdt:permissionset:adapt -p "force-app/main/default/permissionsets" --offline
+    Adapt all the permission sets of a directory to the metadata of the local package directories
+  `,
+    `$ sfdx mdt:permissionset:adapt -p {sourcepath} -d {outputdirectory} -i {inventoryfile}
+    Adapt a permission set to the metadata inventory snapshot of an org
+  `,
+  ];
+
+  protected static flagsConfig = {
+    sourcepath: flags.string({
+      char: "p",
+      required: true,
+      description:
+        "The path to the source metadata file, or a directory or glob pattern of permission set files",
+    }),
+    outputdir: flags.string({
+      char: "d",
+      description:
+        "The output directory where to store the permission set metadata files",
+    }),
+    offline: flags.boolean({
+      default: false,
+      description:
+        "Adapt the permission sets to the metadata of the project package directories instead of an org, the user permissions are kept",
+    }),
+    inventory: flags.string({
+      char: "i",
+      description:
+        "The inventory file taken by mdt:inventory:snapshot to adapt the permission sets to instead of an org, the standard objects, fields & tabs aren't checked",
+    }),
+  };
+
+  protected static supportsUsername = true;
+
+  public async run(): Promise<AnyJson> {
+    this.ux.startSpinner(chalk.yellowBright("Adapting Permission Sets"));
+    let adaptations: FileAdaptation[];
+    try {
+      adaptations = await this.adapt(
+        this.flags.sourcepath,
+        this.flags.outputdir,
+        this.flags.offline,
+        this.flags.inventory
+      );
+    } catch (e) {
+      // output error
+      this.ux.stopSpinner("❌");
+      this.ux.error(chalk.redBright(e));
+      return { success: false };
+    }
+
+    this.ux.stopSpinner("✔️");
+    if (this.flags.inventory) {
+      this.ux.warn(
+        "The standard objects, fields & tabs aren't checked against an inventory snapshot"
+      );
+    }
+    for (const adaptation of adaptations) {
+      this.ux.log(formatFileAdaptation(adaptation));
+    }
+
+    // Return an object to be displayed with --json
+    return { success: true, adaptations };
+  }
+
+  /**
+   * adapt the permission sets of a file path, a directory or a glob pattern
+   * the permission sets are adapted to the same inventory
+   * @param sourcepath
+   * @param outputdir
+   * @param offline adapt to the local package directories instead of an org
+   * @param inventoryfile adapt to an inventory snapshot instead of an org
+   */
+  public async adapt(
+    sourcepath: string,
+    outputdir: string,
+    offline: boolean = false,
+    inventoryfile?: string
+  ): Promise<FileAdaptation[]> {
+    const permissionSetPaths: string[] = await listMatchingFiles(
+      sourcepath,
+      PERMISSION_SET_FILE_SUFFIXES
+    );
+    if (permissionSetPaths.length === 0) {
+      throw `Error no permission set file matches "${sourcepath}"`;
+    }
+    const inventory: MetadataInventory = await loadInventory(
+      this.org && this.org.getConnection(),
+      PROFILE_METADATA_TYPES,
+      offline,
+      inventoryfile
+    );
+    const adaptations: FileAdaptation[] = [];
+    for (const permissionSetPath of permissionSetPaths) {
+      adaptations.push({
+        path: permissionSetPath,
+        ...(await adaptPermissionFile(
+          permissionSetPath,
+          outputdir
+            ? `${outputdir}/${path.basename(permissionSetPath)}`
+            : permissionSetPath,
+          PERMISSION_SET_ROOT_TAG_NAMES,
+          inventory,
+          PERMISSION_SET_ACCESS_FILTERS
+        )),
+      });
+    }
+    return adaptations;
+  }
+}
@@ -2,22 +2,32 @@ import { flags, SfdxCommand } from "@salesforce/command";
 import { AnyJson } from "@salesforce/ts-types";
 import * as chalk from "chalk";
 import * as path from "path";
-import * as x2jParser from "fast-xml-parser";
-import { j2xParser } from "fast-xml-parser";
 
+import { substringBefore, listMatchingFiles } from "../../../utils/utilities";
 import {
-  substringBefore,
-  substringAfter,
-  readFile,
-  writeXMLFile,
-} from "../../../utils/utilities";
-import { filterMetadataTypeTag } from "../../../utils/adapt";
-import { j2xOptions, x2jOptions } from "../../../config/fastXMLOptions";
+  PROFILE_ACCESS_FILTERS,
+  PROFILE_METADATA_TYPES,
+  FileAdaptation,
+  adaptPermissionFile,
+  formatFileAdaptation,
+} from "../../../utils/adapt";
+import { MetadataInventory, loadInventory } from "../../../utils/inventory";
+
+const PROFILE_FILE_SUFFIXES = [".profile-meta.xml", ".profile"];
 
 export default class Adapter extends SfdxCommand {
   public static examples = [
     `$ sfdx mdt:profile:adapt -p {sourcepath} -d {outputdirectory}
     Adapt a profile to be deployed to an org
+  `,
+    `$ sfdx mdt:profile:adapt -p "force-app/main/default/profiles/*.profile-meta.xml" -d {outputdirectory}
+    Adapt all the profiles matching a glob pattern to be deployed to an org
+  `,
+    `$ sfdx mdt:profile:adapt -p {sourcepath} -d {outputdirectory} --offline
+    Adapt a profile to the metadata of the local package directories
+  `,
+    `$ sfdx mdt:profile:adapt -p {sourcepath} -d {outputdirectory} -i {inventoryfile}
+    Adapt a profile to the metadata inventory snapshot of an org
   `,
   ];
 
@@ -25,227 +35,120 @@ export default class Adapter extends SfdxCommand {
     sourcepath: flags.string({
       char: "p",
       required: true,
-      description: "The path to the source metadata file",
+      description:
+        "The path to the source metadata file, or a directory or glob pattern of profile files",
     }),
     outputdir: flags.string({
       char: "d",
       description:
         "The output directory where to store the profile metadata file",
     }),
+    offline: flags.boolean({
+      default: false,
+      description:
+        "Adapt the profile to the metadata of the project package directories instead of an org, the user permissions are kept",
+    }),
+    inventory: flags.string({
+      char: "i",
+      description:
+        "The inventory file taken by mdt:inventory:snapshot to adapt the profile to instead of an org, the standard objects, fields & tabs aren't checked",
+    }),
   };
 
-  protected static requiresUsername = true;
+  protected static supportsUsername = true;
 
   public async run(): Promise<AnyJson> {
     this.ux.startSpinner(chalk.yellowBright("Adapting Profile"));
-
+    let adaptations: FileAdaptation[];
     try {
-      await this.adapt(this.flags.sourcepath, this.flags.outputdir);
+      adaptations = await this.adapt(
+        this.flags.sourcepath,
+        this.flags.outputdir,
+        this.flags.offline,
+        this.flags.inventory
+      );
     } catch (e) {
       // output error
       this.ux.stopSpinner("❌");
       this.ux.error(chalk.redBright(e));
+      return { success: false };
     }
 
     this.ux.stopSpinner("✔️");
+    if (this.flags.inventory) {
+      this.ux.warn(
+        "The standard objects, fields & tabs aren't checked against an inventory snapshot"
+      );
+    }
+    for (const adaptation of adaptations) {
+      this.ux.log(formatFileAdaptation(adaptation));
+    }
 
     // Return an object to be displayed with --json
-    return { success: true };
+    return { success: true, adaptations };
   }
 
   /**
-   * adapt profile
+   * adapt the profiles of a file path, a directory or a glob pattern
+   * the profiles are adapted to the same inventory
    * @param sourcepath
    * @param outputdir
+   * @param offline adapt to the local package directories instead of an org
+   * @param inventoryfile adapt to an inventory snapshot instead of an org
    */
-  public async adapt(sourcepath: string, outputdir: string) {
-    const profileXMLData: string = await readFile(sourcepath);
-    const json2xmlParser = new j2xParser(j2xOptions);
-    const profileName: string = substringBefore(path.basename(sourcepath), ".");
-    const destpath: string = outputdir
-      ? `${outputdir}/${profileName}.profile.meta.xml`
-      : sourcepath;
-    let profileJSON;
-    if (x2jParser.validate(profileXMLData) === true) {
-      // parse xml to json
-      profileJSON = x2jParser.parse(profileXMLData, x2jOptions);
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "applicationVisibilities",
-        "CustomApplication",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["application"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "categoryGroupVisibilities",
-        "DataCategoryGroup",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["dataCategoryGroup"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "classAccesses",
-        "ApexClass",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["apexClass"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "customMetadataTypeAccesses",
-        "CustomObject",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["name"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "customPermissions",
-        "CustomPermission",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["name"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "customSettingAccesses",
-        "CustomObject",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["name"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "externalDataSourceAccesses",
-        "ExternalDataSource",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["externalDataSource"])
-      );
-
-      // metadata api limitation
-      // standard fields not listed in the CustomField metadata
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "fieldPermissions",
-        "CustomField",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["field"]) ||
-          !substringAfter(profileAccess["field"], ",").includes("__") // don't filter standard fields
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "flowAccesses",
-        "Flow",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["flow"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "layoutAssignments",
-        "Layout",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["layout"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "layoutAssignments",
-        "RecordType",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["recordType"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "objectPermissions",
-        "CustomObject",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["object"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "pageAccesses",
-        "ApexPage",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["apexPage"])
-      );
-
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "recordTypeVisibilities",
-        "RecordType",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["recordType"])
-      );
-
-      // metadata api limitation
-      // standard tabs not listed in the CustomTab metadata
-      await filterMetadataTypeTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "tabVisibilities",
-        "CustomTab",
-        (metadataTypeList, profileAccess) =>
-          metadataTypeList.includes(profileAccess["tab"]) ||
-          profileAccess["tab"].startsWith("standard-") // don't filter standard tabs
-      );
-
-      await this.filterUserPermissionTag(
-        this.org.getConnection(),
-        profileJSON.Profile,
-        "userPermissions"
-      );
+  public async adapt(
+    sourcepath: string,
+    outputdir: string,
+    offline: boolean = false,
+    inventoryfile?: string
+  ): Promise<FileAdaptation[]> {
+    const profilePaths: string[] = await listMatchingFiles(
+      sourcepath,
+      PROFILE_FILE_SUFFIXES
+    );
+    if (profilePaths.length === 0) {
+      throw `Error no profile file matches "${sourcepath}"`;
     }
-
-    // convert to xml
-    const formattedXml = json2xmlParser.parse(profileJSON);
-
-    // write xml file
-    await writeXMLFile(`${destpath}`, formattedXml);
+    const inventory: MetadataInventory = await loadInventory(
+      this.org && this.org.getConnection(),
+      PROFILE_METADATA_TYPES,
+      offline,
+      inventoryfile
+    );
+    const adaptations: FileAdaptation[] = [];
+    for (const profilePath of profilePaths) {
+      adaptations.push({
+        path: profilePath,
+        ...(await this.adaptProfile(profilePath, outputdir, inventory)),
+      });
+    }
+    return adaptations;
   }
 
   /**
-   * filter user permission tags
-   * @param conn
-   * @param profile
-   * @param profileAccessName
+   * adapt profile
+   * @param sourcepath
+   * @param outputdir
+   * @param inventory
    */
-  public async filterUserPermissionTag(conn, profile, profileAccessName) {
-    const profileAccess = profile[profileAccessName];
-    if (profileAccess) {
-      const profileDescribe = await conn.sobject("Profile").describe();
-      const profileAccessList = Array.isArray(profileAccess)
-        ? profileAccess
-        : [profileAccess];
-      const userPermissionNameList = profileDescribe.fields
-        .map((userPermission) => userPermission.name)
-        .filter((name) => !["Id", "Name"].includes(name))
-        .map((name) => name.slice(11));
-      profile[profileAccessName] = profileAccessList.filter((profileAccess) =>
-        userPermissionNameList.includes(profileAccess.name)
-      );
-      console.log(`${profileAccessName} ✔️`);
-    }
+  public async adaptProfile(
+    sourcepath: string,
+    outputdir: string,
+    inventory: MetadataInventory
+  ): Promise<{
+    removedEntries: { [sectionName: string]: number };
+    unavailableEntries: { [sectionName: string]: string[] };
+  }> {
+    const profileName: string = substringBefore(path.basename(sourcepath), ".");
+    const destpath: string = outputdir
+      ? `${outputdir}/${profileName}.profile.meta.xml`
+      : sourcepath;
+    return adaptPermissionFile(
+      sourcepath,
+      destpath,
+      ["Profile"],
+      inventory,
+      PROFILE_ACCESS_FILTERS
+    );
   }
 }
@@ -10,13 +10,20 @@ import {
   readFile,
   writeXMLFile,
 } from "../../../utils/utilities";
-import { filterMetadataTypeTag } from "../../../utils/adapt";
+import {
+  TRANSLATIONS_METADATA_TYPES,
+  filterMetadataTypeTag,
+} from "../../../utils/adapt";
+import { MetadataInventory, loadInventory } from "../../../utils/inventory";
 import { j2xOptions, x2jOptions } from "../../../config/fastXMLOptions";
 
 export default class Adapter extends SfdxCommand {
   public static examples = [
     `$ sfdx mdt:transalations:adapt -p {sourcepath} -d {outputdirectory}
     Adapt a transalations to be deployed to an org
+  `,
+    `$ sfdx mdt:transalations:adapt -p {sourcepath} -d {outputdirectory} -i {inventoryfile}
+    Adapt a transalations to the metadata inventory snapshot of an org
   `,
   ];
 
@@ -31,15 +38,24 @@ export default class Adapter extends SfdxCommand {
       description:
         "The output directory where to store the translations metadata file",
     }),
+    inventory: flags.string({
+      char: "i",
+      description:
+        "The inventory file taken by mdt:inventory:snapshot to adapt the translations to instead of an org",
+    }),
   };
 
-  protected static requiresUsername = true;
+  protected static supportsUsername = true;
 
   public async run(): Promise<AnyJson> {
     this.ux.startSpinner(chalk.yellowBright("Adapting Translations"));
 
     try {
-      await this.adapt(this.flags.sourcepath, this.flags.outputdir);
+      await this.adapt(
+        this.flags.sourcepath,
+        this.flags.outputdir,
+        this.flags.inventory
+      );
     } catch (e) {
       // output error
       this.ux.stopSpinner("❌");
@@ -52,7 +68,11 @@ export default class Adapter extends SfdxCommand {
     return { success: true };
   }
 
-  public async adapt(sourcepath: string, outputdir: string) {
+  public async adapt(
+    sourcepath: string,
+    outputdir: string,
+    inventoryfile?: string
+  ) {
     const translationsXMLData: string = await readFile(sourcepath);
     const json2xmlParser = new j2xParser(j2xOptions);
     const languageCode: string = substringBefore(
@@ -66,9 +86,15 @@ export default class Adapter extends SfdxCommand {
     if (x2jParser.validate(translationsXMLData) === true) {
       // parse xml to json
       translationsJSON = x2jParser.parse(translationsXMLData, x2jOptions);
+      const inventory: MetadataInventory = await loadInventory(
+        this.org && this.org.getConnection(),
+        TRANSLATIONS_METADATA_TYPES,
+        false,
+        inventoryfile
+      );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "customApplications",
         "CustomApplication",
@@ -77,7 +103,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "customLabels",
         "CustomLabel",
@@ -86,7 +112,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "customPageWebLinks",
         "CustomPageWebLink",
@@ -95,7 +121,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "customTabs",
         "CustomTab",
@@ -104,7 +130,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "flowDefinitions",
         "Flow",
@@ -113,7 +139,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "globalPicklists",
         "GlobalPicklist",
@@ -122,7 +148,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "prompts",
         "Prompt",
@@ -131,7 +157,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "quickActions",
         "QuickAction",
@@ -140,7 +166,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "reportTypes",
         "ReportType",
@@ -149,7 +175,7 @@ export default class Adapter extends SfdxCommand {
       );
 
       await filterMetadataTypeTag(
-        this.org.getConnection(),
+        inventory,
         translationsJSON.Translations,
         "scontrols",
         "Scontrol",
@@ -0,0 +1,659 @@
+/**
+ * delta strategy of a metadata type
+ * file: the changed file is copied with its companion file
+ * bundle: the whole bundle is copied
+ * child: the decomposed child file is copied
+ * diff: only the changed entries of the xml file are copied
+ */
+type DeltaStrategy = "file" | "bundle" | "child" | "diff";
+
+/**
+ * metadata type description
+ * xmlName: the metadata api type name
+ * directoryName: the source folder name of the metadata type
+ * suffix: the file suffix of the metadata type
+ * strategy: the delta strategy of the metadata type
+ * rootTagName: the root tag name of the xml file (diff strategy)
+ * requiredTagNames: the tags always kept in the xml diff (diff strategy)
+ * destructive: the removed entries are deployed as destructive changes (diff strategy)
+ * inFolder: the components are stored in folders
+ * children: the decomposed child types
+ * parentMember: the child is deployed with its parent file as the parent member
+ * tagName: the tag of the child in the recomposed parent file, the directory name by default
+ * childXmlNames: the child types indexed by their xml tag name
+ * unprefixedChildren: the child members are not prefixed by the parent name
+ * uncomposed: the children keep their own files in the metadata api format
+ * identityKeys: the fields identifying the entries of each tag, fullName by default (diff strategy)
+ * revocations: the field values revoking the removed entries of each tag (diff strategy)
+ */
+interface MetadataType {
+  xmlName: string;
+  directoryName: string;
+  suffix?: string;
+  strategy: DeltaStrategy;
+  rootTagName?: string;
+  requiredTagNames?: string[];
+  destructive?: boolean;
+  inFolder?: boolean;
+  children?: MetadataType[];
+  parentMember?: boolean;
+  tagName?: string;
+  childXmlNames?: { [tagName: string]: string };
+  unprefixedChildren?: boolean;
+  uncomposed?: boolean;
+  identityKeys?: { [tagName: string]: string[] };
+  revocations?: {
+    [tagName: string]: { [fieldName: string]: string | boolean };
+  };
+}
+
+/**
+ * fields identifying the entries of a profile
+ */
+const profileIdentityKeys: { [tagName: string]: string[] } = {
+  applicationVisibilities: ["application"],
+  categoryGroupVisibilities: ["dataCategoryGroup"],
+  classAccesses: ["apexClass"],
+  customMetadataTypeAccesses: ["name"],
+  customPermissions: ["name"],
+  customSettingAccesses: ["name"],
+  externalDataSourceAccesses: ["externalDataSource"],
+  fieldPermissions: ["field"],
+  flowAccesses: ["flow"],
+  layoutAssignments: ["layout", "recordType"],
+  loginIpRanges: ["startAddress", "endAddress"],
+  objectPermissions: ["object"],
+  pageAccesses: ["apexPage"],
+  profileActionOverrides: ["actionName", "pageOrSobjectType", "recordType"],
+  recordTypeVisibilities: ["recordType"],
+  tabVisibilities: ["tab"],
+  userPermissions: ["name"],
+};
+
+/**
+ * field values revoking the removed entries of a profile
+ * the entries which can't be revoked are not listed
+ */
+const profileRevocations: {
+  [tagName: string]: { [fieldName: string]: string | boolean };
+} = {
+  applicationVisibilities: { default: false, visible: false },
+  classAccesses: { enabled: false },
+  customMetadataTypeAccesses: { enabled: false },
+  customPermissions: { enabled: false },
+  customSettingAccesses: { enabled: false },
+  externalDataSourceAccesses: { enabled: false },
+  fieldPermissions: { editable: false, readable: false },
+  flowAccesses: { enabled: false },
+  objectPermissions: {
+    allowCreate: false,
+    allowDelete: false,
+    allowEdit: false,
+    allowRead: false,
+    modifyAllRecords: false,
+    viewAllRecords: false,
+  },
+  pageAccesses: { enabled: false },
+  recordTypeVisibilities: { default: false, visible: false },
+  tabVisibilities: { visibility: "Hidden" },
+  userPermissions: { enabled: false },
+};
+
+/**
+ * fields identifying the entries of a translation
+ */
+const translationsIdentityKeys: { [tagName: string]: string[] } = {
+  customApplications: ["name"],
+  customDataCategoryGroups: ["name"],
+  customLabels: ["name"],
+  customPageWebLinks: ["name"],
+  customTabs: ["name"],
+  globalQuickActions: ["name"],
+  prompts: ["name"],
+  quickActions: ["name"],
+  reportTypes: ["name"],
+  scontrols: ["name"],
+};
+
+const metadataTypes: MetadataType[] = [
+  {
+    xmlName: "ApprovalProcess",
+    directoryName: "approvalProcesses",
+    suffix: "approvalProcess",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomApplication",
+    directoryName: "applications",
+    suffix: "app",
+    strategy: "file",
+  },
+  {
+    xmlName: "AssignmentRules",
+    directoryName: "assignmentRules",
+    suffix: "assignmentRules",
+    strategy: "diff",
+    rootTagName: "AssignmentRules",
+    requiredTagNames: [],
+    destructive: true,
+    childXmlNames: { assignmentRule: "AssignmentRule" },
+  },
+  {
+    xmlName: "AuthProvider",
+    directoryName: "authproviders",
+    suffix: "authprovider",
+    strategy: "file",
+  },
+  {
+    xmlName: "AuraDefinitionBundle",
+    directoryName: "aura",
+    strategy: "bundle",
+  },
+  {
+    xmlName: "AutoResponseRules",
+    directoryName: "autoResponseRules",
+    suffix: "autoResponseRules",
+    strategy: "diff",
+    rootTagName: "AutoResponseRules",
+    requiredTagNames: [],
+    destructive: true,
+    childXmlNames: { autoResponseRule: "AutoResponseRule" },
+  },
+  {
+    xmlName: "Bot",
+    directoryName: "bots",
+    suffix: "bot",
+    strategy: "file",
+    children: [
+      {
+        xmlName: "BotVersion",
+        directoryName: "bots",
+        suffix: "botVersion",
+        strategy: "child",
+        tagName: "botVersions",
+      },
+    ],
+  },
+  {
+    xmlName: "ApexClass",
+    directoryName: "classes",
+    suffix: "cls",
+    strategy: "file",
+  },
+  {
+    xmlName: "Community",
+    directoryName: "communities",
+    suffix: "community",
+    strategy: "file",
+  },
+  {
+    xmlName: "ApexComponent",
+    directoryName: "components",
+    suffix: "component",
+    strategy: "file",
+  },
+  {
+    xmlName: "ConnectedApp",
+    directoryName: "connectedApps",
+    suffix: "connectedApp",
+    strategy: "file",
+  },
+  {
+    xmlName: "ContentAsset",
+    directoryName: "contentassets",
+    suffix: "asset",
+    strategy: "file",
+  },
+  {
+    xmlName: "CorsWhitelistOrigin",
+    directoryName: "corsWhitelistOrigins",
+    suffix: "corsWhitelistOrigin",
+    strategy: "file",
+  },
+  {
+    xmlName: "CspTrustedSite",
+    directoryName: "cspTrustedSites",
+    suffix: "cspTrustedSite",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomMetadata",
+    directoryName: "customMetadata",
+    suffix: "md",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomPermission",
+    directoryName: "customPermissions",
+    suffix: "customPermission",
+    strategy: "file",
+  },
+  {
+    xmlName: "Dashboard",
+    directoryName: "dashboards",
+    suffix: "dashboard",
+    strategy: "file",
+    inFolder: true,
+  },
+  {
+    xmlName: "DataCategoryGroup",
+    directoryName: "datacategorygroups",
+    suffix: "datacategorygroup",
+    strategy: "file",
+  },
+  {
+    xmlName: "ExternalDataSource",
+    directoryName: "dataSources",
+    suffix: "dataSource",
+    strategy: "file",
+  },
+  {
+    xmlName: "Document",
+    directoryName: "documents",
+    suffix: "document",
+    strategy: "file",
+    inFolder: true,
+  },
+  {
+    xmlName: "DuplicateRule",
+    directoryName: "duplicateRules",
+    suffix: "duplicateRule",
+    strategy: "file",
+  },
+  {
+    xmlName: "EmailTemplate",
+    directoryName: "email",
+    suffix: "email",
+    strategy: "file",
+    inFolder: true,
+  },
+  {
+    xmlName: "EscalationRules",
+    directoryName: "escalationRules",
+    suffix: "escalationRules",
+    strategy: "diff",
+    rootTagName: "EscalationRules",
+    requiredTagNames: [],
+    destructive: true,
+    childXmlNames: { escalationRule: "EscalationRule" },
+  },
+  {
+    xmlName: "ExperienceBundle",
+    directoryName: "experiences",
+    suffix: "site",
+    strategy: "bundle",
+  },
+  {
+    xmlName: "FlexiPage",
+    directoryName: "flexipages",
+    suffix: "flexipage",
+    strategy: "file",
+  },
+  {
+    xmlName: "FlowDefinition",
+    directoryName: "flowDefinitions",
+    suffix: "flowDefinition",
+    strategy: "file",
+  },
+  {
+    xmlName: "Flow",
+    directoryName: "flows",
+    suffix: "flow",
+    strategy: "file",
+  },
+  {
+    xmlName: "GlobalValueSet",
+    directoryName: "globalValueSets",
+    suffix: "globalValueSet",
+    strategy: "file",
+  },
+  {
+    xmlName: "Group",
+    directoryName: "groups",
+    suffix: "group",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomLabels",
+    directoryName: "labels",
+    suffix: "labels",
+    strategy: "diff",
+    rootTagName: "CustomLabels",
+    requiredTagNames: [],
+    destructive: true,
+    childXmlNames: { labels: "CustomLabel" },
+    unprefixedChildren: true,
+  },
+  {
+    xmlName: "Layout",
+    directoryName: "layouts",
+    suffix: "layout",
+    strategy: "file",
+  },
+  {
+    xmlName: "LightningComponentBundle",
+    directoryName: "lwc",
+    strategy: "bundle",
+  },
+  {
+    xmlName: "MatchingRules",
+    directoryName: "matchingRules",
+    suffix: "matchingRule",
+    strategy: "diff",
+    rootTagName: "MatchingRules",
+    requiredTagNames: [],
+    destructive: true,
+    childXmlNames: { matchingRules: "MatchingRule" },
+  },
+  {
+    xmlName: "LightningMessageChannel",
+    directoryName: "messageChannels",
+    suffix: "messageChannel",
+    strategy: "file",
+  },
+  {
+    xmlName: "MutingPermissionSet",
+    directoryName: "mutingpermissionsets",
+    suffix: "mutingpermissionset",
+    strategy: "file",
+  },
+  {
+    xmlName: "NamedCredential",
+    directoryName: "namedCredentials",
+    suffix: "namedCredential",
+    strategy: "file",
+  },
+  {
+    xmlName: "Network",
+    directoryName: "networks",
+    suffix: "network",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomNotificationType",
+    directoryName: "notificationtypes",
+    suffix: "notiftype",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomObject",
+    directoryName: "objects",
+    suffix: "object",
+    strategy: "file",
+    children: [
+      {
+        xmlName: "BusinessProcess",
+        directoryName: "businessProcesses",
+        suffix: "businessProcess",
+        strategy: "child",
+      },
+      {
+        xmlName: "CompactLayout",
+        directoryName: "compactLayouts",
+        suffix: "compactLayout",
+        strategy: "child",
+      },
+      {
+        xmlName: "CustomField",
+        directoryName: "fields",
+        suffix: "field",
+        strategy: "child",
+      },
+      {
+        xmlName: "FieldSet",
+        directoryName: "fieldSets",
+        suffix: "fieldSet",
+        strategy: "child",
+      },
+      {
+        xmlName: "Index",
+        directoryName: "indexes",
+        suffix: "index",
+        strategy: "child",
+      },
+      {
+        xmlName: "ListView",
+        directoryName: "listViews",
+        suffix: "listView",
+        strategy: "child",
+      },
+      {
+        xmlName: "RecordType",
+        directoryName: "recordTypes",
+        suffix: "recordType",
+        strategy: "diff",
+        rootTagName: "RecordType",
+        requiredTagNames: ["fullName", "active", "label", "businessProcess"],
+        destructive: false,
+        identityKeys: { picklistValues: ["picklist"] },
+      },
+      {
+        xmlName: "SharingReason",
+        directoryName: "sharingReasons",
+        suffix: "sharingReason",
+        strategy: "child",
+      },
+      {
+        xmlName: "ValidationRule",
+        directoryName: "validationRules",
+        suffix: "validationRule",
+        strategy: "child",
+      },
+      {
+        xmlName: "WebLink",
+        directoryName: "webLinks",
+        suffix: "webLink",
+        strategy: "child",
+      },
+    ],
+  },
+  {
+    xmlName: "CustomObjectTranslation",
+    directoryName: "objectTranslations",
+    suffix: "objectTranslation",
+    strategy: "file",
+    children: [
+      {
+        xmlName: "CustomObjectTranslation",
+        directoryName: "objectTranslations",
+        suffix: "fieldTranslation",
+        strategy: "child",
+        parentMember: true,
+        tagName: "fields",
+      },
+    ],
+  },
+  {
+    xmlName: "ApexPage",
+    directoryName: "pages",
+    suffix: "page",
+    strategy: "file",
+  },
+  {
+    xmlName: "PathAssistant",
+    directoryName: "pathAssistants",
+    suffix: "pathAssistant",
+    strategy: "file",
+  },
+  {
+    xmlName: "PermissionSetGroup",
+    directoryName: "permissionsetgroups",
+    suffix: "permissionsetgroup",
+    strategy: "file",
+  },
+  {
+    xmlName: "PermissionSet",
+    directoryName: "permissionsets",
+    suffix: "permissionset",
+    strategy: "file",
+  },
+  {
+    xmlName: "Profile",
+    directoryName: "profiles",
+    suffix: "profile",
+    strategy: "diff",
+    rootTagName: "Profile",
+    requiredTagNames: [],
+    destructive: false,
+    identityKeys: profileIdentityKeys,
+    revocations: profileRevocations,
+  },
+  {
+    xmlName: "Queue",
+    directoryName: "queues",
+    suffix: "queue",
+    strategy: "file",
+  },
+  {
+    xmlName: "QuickAction",
+    directoryName: "quickActions",
+    suffix: "quickAction",
+    strategy: "file",
+  },
+  {
+    xmlName: "RemoteSiteSetting",
+    directoryName: "remoteSiteSettings",
+    suffix: "remoteSite",
+    strategy: "file",
+  },
+  {
+    xmlName: "Report",
+    directoryName: "reports",
+    suffix: "report",
+    strategy: "file",
+    inFolder: true,
+  },
+  {
+    xmlName: "ReportType",
+    directoryName: "reportTypes",
+    suffix: "reportType",
+    strategy: "file",
+  },
+  {
+    xmlName: "Role",
+    directoryName: "roles",
+    suffix: "role",
+    strategy: "file",
+  },
+  {
+    xmlName: "Settings",
+    directoryName: "settings",
+    suffix: "settings",
+    strategy: "file",
+  },
+  {
+    xmlName: "SharingRules",
+    directoryName: "sharingRules",
+    suffix: "sharingRules",
+    strategy: "diff",
+    rootTagName: "SharingRules",
+    requiredTagNames: [],
+    destructive: true,
+    childXmlNames: {
+      sharingCriteriaRules: "SharingCriteriaRule",
+      sharingGuestRules: "SharingGuestRule",
+      sharingOwnerRules: "SharingOwnerRule",
+      sharingTerritoryRules: "SharingTerritoryRule",
+    },
+  },
+  {
+    xmlName: "StandardValueSet",
+    directoryName: "standardValueSets",
+    suffix: "standardValueSet",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomSite",
+    directoryName: "sites",
+    suffix: "site",
+    strategy: "file",
+  },
+  {
+    xmlName: "StaticResource",
+    directoryName: "staticresources",
+    suffix: "resource",
+    strategy: "bundle",
+  },
+  {
+    xmlName: "CustomTab",
+    directoryName: "tabs",
+    suffix: "tab",
+    strategy: "file",
+  },
+  {
+    xmlName: "ApexTestSuite",
+    directoryName: "testSuites",
+    suffix: "testSuite",
+    strategy: "file",
+  },
+  {
+    xmlName: "Territory2Model",
+    directoryName: "territory2Models",
+    suffix: "territory2Model",
+    strategy: "file",
+    uncomposed: true,
+    children: [
+      {
+        xmlName: "Territory2Rule",
+        directoryName: "rules",
+        suffix: "territory2Rule",
+        strategy: "child",
+      },
+      {
+        xmlName: "Territory2",
+        directoryName: "territories",
+        suffix: "territory2",
+        strategy: "child",
+      },
+    ],
+  },
+  {
+    xmlName: "Territory2Type",
+    directoryName: "territory2Types",
+    suffix: "territory2Type",
+    strategy: "file",
+  },
+  {
+    xmlName: "Translations",
+    directoryName: "translations",
+    suffix: "translation",
+    strategy: "diff",
+    rootTagName: "Translations",
+    requiredTagNames: [],
+    destructive: false,
+    identityKeys: translationsIdentityKeys,
+  },
+  {
+    xmlName: "ApexTrigger",
+    directoryName: "triggers",
+    suffix: "trigger",
+    strategy: "file",
+  },
+  {
+    xmlName: "CustomPageWebLink",
+    directoryName: "weblinks",
+    suffix: "weblink",
+    strategy: "file",
+  },
+  {
+    xmlName: "Workflow",
+    directoryName: "workflows",
+    suffix: "workflow",
+    strategy: "diff",
+    rootTagName: "Workflow",
+    requiredTagNames: [],
+    destructive: true,
+    childXmlNames: {
+      alerts: "WorkflowAlert",
+      fieldUpdates: "WorkflowFieldUpdate",
+      flowActions: "WorkflowFlowAction",
+      knowledgePublishes: "WorkflowKnowledgePublish",
+      outboundMessages: "WorkflowOutboundMessage",
+      rules: "WorkflowRule",
+      send: "WorkflowSend",
+      tasks: "WorkflowTask",
+    },
+  },
+];
+
+export { DeltaStrategy, MetadataType, metadataTypes };
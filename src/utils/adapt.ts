@@ -1,41 +1,426 @@
+import * as x2jParser from "fast-xml-parser";
+import { j2xParser } from "fast-xml-parser";
+import { j2xOptions, x2jOptions } from "../config/fastXMLOptions";
+
+import { MetadataInventory } from "./inventory";
+import {
+  readFile,
+  substringAfter,
+  substringBefore,
+  writeXMLFile,
+} from "./utilities";
+
+/**
+ * maximum number of queries of a metadata list call
+ */
+const LIST_METADATA_BATCH_SIZE = 3;
+
+/**
+ * metadata types listed to adapt a profile
+ */
+const PROFILE_METADATA_TYPES = [
+  "ApexClass",
+  "ApexPage",
+  "CustomApplication",
+  "CustomField",
+  "CustomObject",
+  "CustomPermission",
+  "CustomTab",
+  "DataCategoryGroup",
+  "ExternalDataSource",
+  "Flow",
+  "Layout",
+  "RecordType",
+];
+
+/**
+ * metadata types listed to adapt a translation
+ */
+const TRANSLATIONS_METADATA_TYPES = [
+  "CustomApplication",
+  "CustomLabel",
+  "CustomPageWebLink",
+  "CustomTab",
+  "Flow",
+  "GlobalPicklist",
+  "Prompt",
+  "QuickAction",
+  "ReportType",
+  "Scontrol",
+];
+
+/**
+ * filter of the accesses of a profile or permission set tag
+ * tagName: the tag of the accesses
+ * metadataType: the metadata type of the accessed members
+ * isAccessKept: keep an access depending on the listed members
+ */
+type AccessFilter = {
+  tagName: string;
+  metadataType: string;
+  isAccessKept: (
+    metadataTypeList: string[],
+    access,
+    inventory: MetadataInventory
+  ) => boolean;
+};
+
+/**
+ * adaptation of a profile or permission set file
+ * path: the path of the file
+ * removedEntries: the number of entries removed from each access tag
+ * unavailableEntries: the standard objects & fields removed from each access
+ * tag because their feature isn't enabled in the org
+ */
+type FileAdaptation = {
+  path: string;
+  removedEntries: { [tagName: string]: number };
+  unavailableEntries: { [tagName: string]: string[] };
+};
+
+/**
+ * tags of the accessed member of the access tags of standard members
+ */
+const STANDARD_MEMBER_TAG_NAMES = {
+  objectPermissions: "object",
+  fieldPermissions: "field",
+  tabSettings: "tab",
+  tabVisibilities: "tab",
+};
+
+/**
+ * check if a tab isn't the standard tab of an unavailable object
+ * the standard tabs of the other names, like standard-home, aren't sobject tabs
+ * @param unavailableObjects
+ * @param tabName
+ */
+const isStandardTabAvailable = (
+  unavailableObjects: string[],
+  tabName: string
+): boolean =>
+  !tabName.startsWith("standard-") ||
+  !unavailableObjects.some(
+    (objectName) =>
+      objectName.toLowerCase() === substringAfter(tabName, "-").toLowerCase()
+  );
+
+/**
+ * check if an object is a standard object
+ * @param objectName
+ */
+const isStandardObject = (objectName: string): boolean =>
+  !objectName.includes("__");
+
+/**
+ * check if a field is a standard field
+ * @param fieldName the field name prefixed by its object
+ */
+const isStandardField = (fieldName: string): boolean =>
+  !substringAfter(fieldName, ".").includes("__");
+
+/**
+ * keep the accesses whose member is listed
+ * @param memberTagName the tag of the accessed member
+ */
+const isMemberListed =
+  (memberTagName: string) =>
+  (metadataTypeList: string[], access): boolean =>
+    metadataTypeList.includes(access[memberTagName]);
+
 /**
- * list metadata type full names
+ * keep the listed applications, and the standard applications missing from
+ * the local source
+ */
+const isApplicationListed = (
+  metadataTypeList: string[],
+  access,
+  inventory: MetadataInventory
+): boolean =>
+  metadataTypeList.includes(access["application"]) ||
+  (!inventory.standardMembers &&
+    access["application"].startsWith("standard__"));
+
+/**
+ * keep the listed fields
+ * metadata api limitation
+ * standard fields not listed in the CustomField metadata
+ */
+const isFieldListed = (metadataTypeList: string[], access): boolean =>
+  metadataTypeList.includes(access["field"]) ||
+  isStandardField(access["field"]); // don't filter standard fields
+
+/**
+ * keep the listed objects, and the standard objects missing from the local
+ * source
+ */
+const isObjectListed = (
+  metadataTypeList: string[],
+  access,
+  inventory: MetadataInventory
+): boolean =>
+  metadataTypeList.includes(access["object"]) ||
+  (!inventory.standardMembers && isStandardObject(access["object"]));
+
+/**
+ * keep the listed tabs
+ * metadata api limitation
+ * standard tabs not listed in the CustomTab metadata, their objects are checked
+ * against the described sobjects
+ */
+const isTabListed = (metadataTypeList: string[], access): boolean =>
+  metadataTypeList.includes(access["tab"]) ||
+  access["tab"].startsWith("standard-"); // don't filter standard tabs
+
+/**
+ * access filters of the profiles
+ */
+const PROFILE_ACCESS_FILTERS: AccessFilter[] = [
+  {
+    tagName: "applicationVisibilities",
+    metadataType: "CustomApplication",
+    isAccessKept: isApplicationListed,
+  },
+  {
+    tagName: "categoryGroupVisibilities",
+    metadataType: "DataCategoryGroup",
+    isAccessKept: isMemberListed("dataCategoryGroup"),
+  },
+  {
+    tagName: "classAccesses",
+    metadataType: "ApexClass",
+    isAccessKept: isMemberListed("apexClass"),
+  },
+  {
+    tagName: "customMetadataTypeAccesses",
+    metadataType: "CustomObject",
+    isAccessKept: isMemberListed("name"),
+  },
+  {
+    tagName: "customPermissions",
+    metadataType: "CustomPermission",
+    isAccessKept: isMemberListed("name"),
+  },
+  {
+    tagName: "customSettingAccesses",
+    metadataType: "CustomObject",
+    isAccessKept: isMemberListed("name"),
+  },
+  {
+    tagName: "externalDataSourceAccesses",
+    metadataType: "ExternalDataSource",
+    isAccessKept: isMemberListed("externalDataSource"),
+  },
+  {
+    tagName: "fieldPermissions",
+    metadataType: "CustomField",
+    isAccessKept: isFieldListed,
+  },
+  {
+    tagName: "flowAccesses",
+    metadataType: "Flow",
+    isAccessKept: isMemberListed("flow"),
+  },
+  {
+    tagName: "layoutAssignments",
+    metadataType: "Layout",
+    isAccessKept: isMemberListed("layout"),
+  },
+  {
+    tagName: "layoutAssignments",
+    metadataType: "RecordType",
+    isAccessKept: isMemberListed("recordType"),
+  },
+  {
+    tagName: "objectPermissions",
+    metadataType: "CustomObject",
+    isAccessKept: isObjectListed,
+  },
+  {
+    tagName: "pageAccesses",
+    metadataType: "ApexPage",
+    isAccessKept: isMemberListed("apexPage"),
+  },
+  {
+    tagName: "recordTypeVisibilities",
+    metadataType: "RecordType",
+    isAccessKept: isMemberListed("recordType"),
+  },
+  {
+    tagName: "tabVisibilities",
+    metadataType: "CustomTab",
+    isAccessKept: isTabListed,
+  },
+];
+
+/**
+ * access filters of the permission sets & muting permission sets
+ * they have no layout assignments nor category group visibilities, and their
+ * tab visibilities are named tab settings
+ */
+const PERMISSION_SET_ACCESS_FILTERS: AccessFilter[] = [
+  ...PROFILE_ACCESS_FILTERS.filter(
+    (accessFilter) =>
+      ![
+        "categoryGroupVisibilities",
+        "layoutAssignments",
+        "tabVisibilities",
+      ].includes(accessFilter.tagName)
+  ),
+  {
+    tagName: "tabSettings",
+    metadataType: "CustomTab",
+    isAccessKept: isTabListed,
+  },
+];
+
+/**
+ * list the full names of several metadata types
+ * the types are listed by batches of 3 queries per metadata list call
  * @param conn
- * @param metadataTypeName
- * @param folderName
+ * @param metadataTypeNames
  */
-const listMetadataTypeFullNames = async (
+const listMetadataFullNames = async (
   conn,
-  metadataTypeName: string,
-  folderName?: string
-) => {
-  const listMetadataQuery = folderName
-    ? { type: metadataTypeName, folder: folderName }
-    : { type: metadataTypeName };
-  let metadataList = await conn.metadata.list([listMetadataQuery]);
-  if(metadataList){
-    if (!Array.isArray(metadataList)) {
-      metadataList = [metadataList];
+  metadataTypeNames: string[]
+): Promise<{ [metadataTypeName: string]: string[] }> => {
+  const metadataFullNames: { [metadataTypeName: string]: string[] } = {};
+  for (const metadataTypeName of metadataTypeNames) {
+    metadataFullNames[metadataTypeName] = [];
+  }
+  const uniqueTypeNames: string[] = Object.keys(metadataFullNames);
+  for (let i = 0; i < uniqueTypeNames.length; i += LIST_METADATA_BATCH_SIZE) {
+    const listMetadataQueries = uniqueTypeNames
+      .slice(i, i + LIST_METADATA_BATCH_SIZE)
+      .map((metadataTypeName) => ({ type: metadataTypeName }));
+    const metadataList = await conn.metadata.list(listMetadataQueries);
+    for (const metadata of [].concat(metadataList || [])) {
+      if (metadataFullNames[metadata.type]) {
+        metadataFullNames[metadata.type].push(metadata.fullName);
+      }
     }
-    const metadataFullNameList = metadataList.map(
-      (metadata) => metadata.fullName
-    );
-    return metadataFullNameList;
-  }else{
-    return [];
   }
+  return metadataFullNames;
 };
 
 /**
- * filter metadata type tags
+ * list the user permission names from the describe of the profile object
  * @param conn
+ */
+const listUserPermissionNames = async (conn): Promise<string[]> => {
+  const profileDescribe = await conn.sobject("Profile").describe();
+  return profileDescribe.fields
+    .map((userPermission) => userPermission.name)
+    .filter((name) => !["Id", "Name"].includes(name))
+    .map((name) => name.slice(11));
+};
+
+/**
+ * list the sobject names of an org
+ * @param conn
+ */
+const listSObjectNames = async (conn): Promise<string[]> => {
+  const globalDescribe = await conn.describeGlobal();
+  return globalDescribe.sobjects.map((sObject) => sObject.name);
+};
+
+/**
+ * list the field names of a sobject of an org
+ * @param conn
+ * @param sObjectName
+ */
+const listSObjectFieldNames = async (
+  conn,
+  sObjectName: string
+): Promise<string[]> => {
+  const sObjectDescribe = await conn.sobject(sObjectName).describe();
+  return sObjectDescribe.fields.map((field) => field.name);
+};
+
+/**
+ * check if a standard object or field exists in the described sobjects
+ * the custom objects & fields are checked against the metadata listings
+ * @param inventory
+ * @param member an object name or a field name prefixed by its object
+ */
+const isStandardMemberAvailable = async (
+  inventory: MetadataInventory,
+  member: string
+): Promise<boolean> => {
+  const sObjectName: string = member.includes(".")
+    ? substringBefore(member, ".")
+    : member;
+  if (
+    member.includes(".") ? !isStandardField(member) : !isStandardObject(member)
+  ) {
+    return true;
+  }
+  if (!(await inventory.listSObjects()).includes(sObjectName)) {
+    return false;
+  }
+  return (
+    !member.includes(".") ||
+    (await inventory.listSObjectFields(sObjectName)).includes(
+      substringAfter(member, ".")
+    )
+  );
+};
+
+/**
+ * filter the accesses of the standard objects, fields & tabs missing from the org
+ * the features of these members aren't enabled in the org
+ * the standard tabs are removed with the object permissions of their sobject
+ * returns the removed members by tag
+ * @param inventory
+ * @param metadataJSON
+ */
+const filterUnavailableStandardTags = async (
+  inventory: MetadataInventory,
+  metadataJSON
+): Promise<{ [tagName: string]: string[] }> => {
+  const unavailableEntries: { [tagName: string]: string[] } = {};
+  if (!inventory.listSObjects) {
+    return unavailableEntries;
+  }
+  for (const tagName of Object.keys(STANDARD_MEMBER_TAG_NAMES)) {
+    const memberTagName: string = STANDARD_MEMBER_TAG_NAMES[tagName];
+    if (!metadataJSON[tagName]) {
+      continue;
+    }
+    const availableAccesses = [];
+    const unavailableMembers: string[] = [];
+    for (const access of [].concat(metadataJSON[tagName])) {
+      const member: string = access[memberTagName];
+      if (
+        memberTagName === "tab"
+          ? isStandardTabAvailable(
+              unavailableEntries["objectPermissions"] || [],
+              member
+            )
+          : await isStandardMemberAvailable(inventory, member)
+      ) {
+        availableAccesses.push(access);
+      } else {
+        unavailableMembers.push(member);
+      }
+    }
+    metadataJSON[tagName] = availableAccesses;
+    if (unavailableMembers.length > 0) {
+      unavailableEntries[tagName] = unavailableMembers;
+    }
+  }
+  return unavailableEntries;
+};
+
+/**
+ * filter metadata type tags
+ * @param inventory
  * @param metadataJSON
  * @param tagName
  * @param metadataType
  * @param filterMetadata
  */
 const filterMetadataTypeTag = async (
-  conn,
+  inventory: MetadataInventory,
   metadataJSON,
   tagName: string,
   metadataType: string,
@@ -43,10 +428,11 @@ const filterMetadataTypeTag = async (
 ) => {
   const metadataStubJSON = metadataJSON[tagName];
   if (metadataStubJSON) {
-    const metadataTypeFullNames = await listMetadataTypeFullNames(
-      conn,
-      metadataType
-    );
+    const metadataTypeFullNames = await inventory.listFullNames(metadataType);
+    /** the tags of the metadata types unknown to the inventory are kept */
+    if (!metadataTypeFullNames) {
+      return;
+    }
     const metadataStubJSONList = Array.isArray(metadataStubJSON)
       ? metadataStubJSON
       : [metadataStubJSON];
@@ -58,4 +444,179 @@ const filterMetadataTypeTag = async (
   }
 };
 
-export { listMetadataTypeFullNames, filterMetadataTypeTag };
+/**
+ * filter the access tags of a profile or permission set
+ * @param inventory
+ * @param metadataJSON
+ * @param accessFilters
+ */
+const filterAccessTags = async (
+  inventory: MetadataInventory,
+  metadataJSON,
+  accessFilters: AccessFilter[]
+): Promise<void> => {
+  for (const accessFilter of accessFilters) {
+    await filterMetadataTypeTag(
+      inventory,
+      metadataJSON,
+      accessFilter.tagName,
+      accessFilter.metadataType,
+      (metadataTypeList, access) =>
+        accessFilter.isAccessKept(metadataTypeList, access, inventory)
+    );
+  }
+};
+
+/**
+ * filter user permission tags
+ * the user permissions are kept if the inventory can't list them
+ * @param inventory
+ * @param metadataJSON
+ * @param tagName
+ */
+const filterUserPermissionTag = async (
+  inventory: MetadataInventory,
+  metadataJSON,
+  tagName: string
+): Promise<void> => {
+  const userPermissions = metadataJSON[tagName];
+  if (userPermissions && inventory.listUserPermissions) {
+    const userPermissionNameList: string[] =
+      await inventory.listUserPermissions();
+    metadataJSON[tagName] = []
+      .concat(userPermissions)
+      .filter((userPermission) =>
+        userPermissionNameList.includes(userPermission.name)
+      );
+    console.log(`${tagName} ✔️`);
+  }
+};
+
+/**
+ * count the entries of each tag of a metadata
+ * @param metadataJSON
+ */
+const countTagEntries = (metadataJSON): { [tagName: string]: number } => {
+  const entryCounts: { [tagName: string]: number } = {};
+  for (const tagName of Object.keys(metadataJSON || {})) {
+    if (tagName !== "@") {
+      entryCounts[tagName] = [].concat(metadataJSON[tagName]).length;
+    }
+  }
+  return entryCounts;
+};
+
+/**
+ * count the entries removed from each tag of a metadata since a previous count
+ * the tags without removed entries are omitted
+ * @param previousEntryCounts
+ * @param metadataJSON
+ */
+const countRemovedTagEntries = (
+  previousEntryCounts: { [tagName: string]: number },
+  metadataJSON
+): { [tagName: string]: number } => {
+  const entryCounts = countTagEntries(metadataJSON);
+  const removedEntryCounts: { [tagName: string]: number } = {};
+  for (const tagName of Object.keys(previousEntryCounts)) {
+    const removedEntryCount: number =
+      previousEntryCounts[tagName] - (entryCounts[tagName] || 0);
+    if (removedEntryCount > 0) {
+      removedEntryCounts[tagName] = removedEntryCount;
+    }
+  }
+  return removedEntryCounts;
+};
+
+/**
+ * adapt the accesses of a profile or permission set file to an inventory
+ * returns the number of entries removed from each tag
+ * @param sourcepath
+ * @param destpath
+ * @param rootTagNames the expected root tags of the file
+ * @param inventory
+ * @param accessFilters
+ */
+const adaptPermissionFile = async (
+  sourcepath: string,
+  destpath: string,
+  rootTagNames: string[],
+  inventory: MetadataInventory,
+  accessFilters: AccessFilter[]
+): Promise<{
+  removedEntries: { [tagName: string]: number };
+  unavailableEntries: { [tagName: string]: string[] };
+}> => {
+  const xmlData: string = await readFile(sourcepath);
+  if (x2jParser.validate(xmlData) !== true) {
+    throw `Error invalid xml file "${sourcepath}"`;
+  }
+  // parse xml to json
+  const metadataJSON = x2jParser.parse(xmlData, x2jOptions);
+  const rootTagName: string = Object.keys(metadataJSON).find((tagName) =>
+    rootTagNames.includes(tagName)
+  );
+  if (!rootTagName) {
+    throw `Error "${sourcepath}" isn't a ${rootTagNames.join(" or ")} file`;
+  }
+  const rootJSON = metadataJSON[rootTagName];
+  let removedEntries: { [tagName: string]: number } = {};
+  let unavailableEntries: { [tagName: string]: string[] } = {};
+  if (typeof rootJSON === "object") {
+    const entryCounts = countTagEntries(rootJSON);
+    // the standard members are checked first to report the disabled features
+    unavailableEntries = await filterUnavailableStandardTags(
+      inventory,
+      rootJSON
+    );
+    await filterAccessTags(inventory, rootJSON, accessFilters);
+    await filterUserPermissionTag(inventory, rootJSON, "userPermissions");
+    removedEntries = countRemovedTagEntries(entryCounts, rootJSON);
+  }
+
+  // convert to xml & write xml file
+  await writeXMLFile(destpath, new j2xParser(j2xOptions).parse(metadataJSON));
+  return { removedEntries, unavailableEntries };
+};
+
+/**
+ * format the removed entries of a file adaptation
+ * @param adaptation
+ */
+const formatFileAdaptation = (adaptation: FileAdaptation): string => {
+  const removedEntries: string[] = Object.keys(adaptation.removedEntries).map(
+    (tagName) => `${tagName} -${adaptation.removedEntries[tagName]}`
+  );
+  return [
+    `${adaptation.path}: ${
+      removedEntries.length > 0 ? removedEntries.join(", ") : "unchanged"
+    }`,
+    ...Object.keys(adaptation.unavailableEntries).map(
+      (tagName) =>
+        `  ${tagName} not enabled in the org: ${adaptation.unavailableEntries[
+          tagName
+        ].join(", ")}`
+    ),
+  ].join("\n");
+};
+
+export {
+  AccessFilter,
+  FileAdaptation,
+  PROFILE_ACCESS_FILTERS,
+  PERMISSION_SET_ACCESS_FILTERS,
+  PROFILE_METADATA_TYPES,
+  TRANSLATIONS_METADATA_TYPES,
+  listMetadataFullNames,
+  listUserPermissionNames,
+  listSObjectNames,
+  listSObjectFieldNames,
+  filterMetadataTypeTag,
+  countTagEntries,
+  countRemovedTagEntries,
+  filterAccessTags,
+  filterUserPermissionTag,
+  filterUnavailableStandardTags,
+  adaptPermissionFile,
+  formatFileAdaptation,
+};
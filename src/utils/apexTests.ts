@@ -0,0 +1,91 @@
+import * as path from "path";
+
+import { SourceReader } from "./source";
+import { substringAfterLast } from "./utilities";
+
+/**
+ * naming conventions of the test classes of an apex class or trigger
+ * @param apexName
+ */
+const testClassNames = (apexName: string): string[] =>
+  [
+    `${apexName}Test`,
+    `${apexName}_Test`,
+    `${apexName}Tests`,
+    `${apexName}_Tests`,
+    `Test${apexName}`,
+    `Test_${apexName}`,
+  ].map((testClassName) => testClassName.toLowerCase());
+
+/**
+ * remove the comments of an apex source
+ * @param apexBody
+ */
+const removeApexComments = (apexBody: string): string =>
+  apexBody.replace(/\/\*[\s\S]*?\*\//g, "").replace(/\/\/.*$/gm, "");
+
+/**
+ * check if an apex class is a test class
+ * @param apexBody
+ */
+const isTestClass = (apexBody: string): boolean =>
+  /@istest\b/i.test(removeApexComments(apexBody));
+
+/**
+ * check if an apex source references an apex class or trigger
+ * apex names are case insensitive
+ * @param apexBody
+ * @param apexName
+ */
+const referencesApexName = (apexBody: string, apexName: string): boolean =>
+  new RegExp(`\\b${apexName}\\b`, "i").test(removeApexComments(apexBody));
+
+/**
+ * find the test classes related to changed apex classes & triggers
+ * the test classes are matched by naming convention or by reference
+ * @param reader
+ * @param packageDirectories
+ * @param apexNames
+ */
+const findImpactedTestClasses = async (
+  reader: SourceReader,
+  packageDirectories: string[],
+  apexNames: string[]
+): Promise<string[]> => {
+  const testClasses: string[] = [];
+  if (apexNames.length === 0) {
+    return testClasses;
+  }
+  for (const packageDirectory of packageDirectories) {
+    if (!(await reader.exists(packageDirectory))) {
+      continue;
+    }
+    const classFilePaths: string[] = (
+      await reader.listFiles(packageDirectory)
+    ).filter((filePath) => filePath.endsWith(".cls"));
+    for (const classFilePath of classFilePaths) {
+      const className: string = substringAfterLast(classFilePath, "/").replace(
+        /\.cls$/,
+        ""
+      );
+      const classBody: string = (
+        await reader.readFile(path.posix.join(packageDirectory, classFilePath))
+      ).toString("utf8");
+      if (testClasses.includes(className) || !isTestClass(classBody)) {
+        continue;
+      }
+      const isImpacted: boolean = apexNames.some(
+        (apexName) =>
+          apexName.toLowerCase() === className.toLowerCase() ||
+          testClassNames(apexName).includes(className.toLowerCase()) ||
+          referencesApexName(classBody, apexName)
+      );
+      if (isImpacted) {
+        testClasses.push(className);
+      }
+    }
+  }
+  return testClasses.sort();
+};
+
+export { isTestClass, referencesApexName, findImpactedTestClasses };
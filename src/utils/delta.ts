@@ -1,4 +1,4 @@
-import { spawn, execSync } from "child_process";
+import * as path from "path";
 import * as x2jParser from "fast-xml-parser";
 import { j2xParser } from "fast-xml-parser";
 import { j2xOptions, x2jOptions } from "../config/fastXMLOptions";
@@ -9,6 +9,167 @@ import {
   mkdirRecursive,
   substringBeforeLast,
 } from "./utilities";
+import { Manifest } from "./manifest";
+import { GitObjectReader, gitShowObjectReader } from "./git";
+import { DestructivePhase } from "./destructive";
+import { CommitSelection } from "./selection";
+
+/**
+ * entry of a complex metadata
+ * change: how the entry changed between the two versions of the metadata
+ * the revoked entries are removed entries deployed with revoking values
+ * the required entries are unchanged entries deployed for a changed dependency
+ */
+type MetadataEntry = {
+  tagName: string;
+  fullName?: string;
+  change?: "added" | "modified" | "removed" | "revoked" | "required";
+};
+
+/**
+ * tag of a complex metadata as listed by metadataToJSArray
+ * the other keys are the fields of the tag
+ */
+type MetadataItem = {
+  tagName: string;
+  tagType: string;
+  fullName?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * entries of two versions of a complex metadata indexed by identity
+ * with the identities of the added, modified & removed entries
+ */
+type MetadataDiff = {
+  fromItems: Map<string, MetadataItem>;
+  toItems: Map<string, MetadataItem>;
+  added: string[];
+  modified: string[];
+  removed: string[];
+};
+
+/**
+ * options of a copy of complex metadata diffs
+ * packageDir: the package the changed entries are copied to
+ * destructiveDir: the package the removed entries are copied to, they are
+ * ignored without it
+ * projectPath: the project the working tree files are read from
+ * objectReader: the reader of the git objects of the project
+ * dryrun: list the changed & removed entries without writing them
+ */
+type DiffCopyOptions = {
+  packageDir: string;
+  destructiveDir?: string;
+  projectPath?: string;
+  objectReader?: GitObjectReader;
+  dryrun?: boolean;
+};
+
+const DEFAULT_IDENTITY_KEYS = ["fullName"];
+
+/**
+ * tags of the workflow actions indexed by action type
+ */
+const WORKFLOW_ACTION_TAG_NAMES: { [actionType: string]: string } = {
+  Alert: "alerts",
+  FieldUpdate: "fieldUpdates",
+  FlowAction: "flowActions",
+  KnowledgePublish: "knowledgePublishes",
+  OutboundMessage: "outboundMessages",
+  Send: "send",
+  Task: "tasks",
+};
+
+/**
+ * handling of a delta path
+ * copy: the file is copied with its companion file
+ * bundle: all the files of the bundle are copied
+ * diff: the changed entries of the file are copied
+ * destructive: the member is added to the destructive changes
+ * skip: the path is not handled
+ */
+type DeltaAction = "copy" | "bundle" | "diff" | "destructive" | "skip";
+
+/**
+ * changed, renamed or deleted path of a delta
+ * renamed paths have an entry for each side of the rename
+ * required paths are unchanged paths deployed for the changed requiredBy path
+ * ignoredBy is the ignore file or the type filter flag which excluded the path
+ * revision is the selected commit the content is read from
+ */
+type DeltaEntry = {
+  path: string;
+  status: "added" | "modified" | "deleted" | "renamed" | "required";
+  renamedFrom?: string;
+  renamedTo?: string;
+  requiredBy?: string;
+  type?: string;
+  member?: string;
+  action?: DeltaAction;
+  ignoredBy?: string;
+  revision?: string;
+};
+
+/**
+ * metadata type names kept in a delta
+ * include: only these types are kept
+ * exclude: these types are filtered out
+ */
+type TypeFilter = {
+  include?: string[];
+  exclude?: string[];
+};
+
+/**
+ * options of a delta
+ * gitobjects: read the content from git instead of the working tree
+ * testclasses: detect the test classes of the changed apex
+ * dryrun: describe the delta without writing anything
+ * ignorefile: ignore file of the package paths
+ * ignoredestructivefile: ignore file of the destructive paths
+ * mdapi: generate the package in the metadata api format
+ * zipfile: zip the package in the metadata api format into this file
+ * selection: select the commits of the range by message
+ * forcedPhases: the forced destructive phases by metadata type
+ * typeFilter: the metadata types kept in the delta
+ */
+type DeltaOptions = {
+  gitobjects?: boolean;
+  testclasses?: boolean;
+  dryrun?: boolean;
+  ignorefile?: string;
+  ignoredestructivefile?: string;
+  mdapi?: boolean;
+  zipfile?: string;
+  selection?: CommitSelection;
+  forcedPhases?: { [metadataTypeName: string]: DestructivePhase };
+  typeFilter?: TypeFilter;
+};
+
+/**
+ * result of a delta
+ * destructiveChangesPre: the destructive changes before the deployment
+ * destructiveChangesPost: the destructive changes after the deployment
+ * excludedTypes: the members filtered out by the type filter
+ * unresolvedPaths: the paths of no known metadata type, skipped
+ * selectedCommits: the commits selected by message pattern or ticket key
+ * excludedChanges: the excluded commits also changing a selected file
+ * timings: the duration of each step in milliseconds
+ */
+type DeltaResult = {
+  entries: DeltaEntry[];
+  package: Manifest;
+  destructiveChanges: Manifest;
+  destructiveChangesPre?: Manifest;
+  destructiveChangesPost?: Manifest;
+  testClasses?: string[];
+  excludedTypes?: Manifest;
+  unresolvedPaths?: string[];
+  selectedCommits?: string[];
+  excludedChanges?: { path: string; commits: string[] }[];
+  timings?: { [step: string]: number };
+};
 
 /**
  * metadata to JS Array
@@ -24,11 +185,17 @@ const metadataToJSArray = (jsonContent, rootTagName: string): string[] => {
       // check if array of one
       arrayContent = arrayContent.concat(
         jsonContent[rootTagName][subTagName].map((el) => {
-          return JSON.stringify({
-            tagName: subTagName,
-            tagType: "array",
-            ...el,
-          });
+          return typeof el !== "object"
+            ? JSON.stringify({
+                tagName: subTagName,
+                tagType: "text",
+                [subTagName]: el,
+              })
+            : JSON.stringify({
+                tagName: subTagName,
+                tagType: "array",
+                ...el,
+              });
         })
       );
     } else {
@@ -55,197 +222,393 @@ const metadataToJSArray = (jsonContent, rootTagName: string): string[] => {
 };
 
 /**
- * diff metadata
- * @param xmlversion1
- * @param xmlversion2
+ * identify a tag of a complex metadata
+ * the entries are identified by their tag name & identity keys
+ * the tags without identity keys are identified by their tag name
+ * @param item
+ * @param identityKeys
+ */
+const metadataItemIdentity = (
+  item: MetadataItem,
+  identityKeys: { [tagName: string]: string[] }
+): string => {
+  const keys: string[] = (
+    identityKeys[item.tagName] || DEFAULT_IDENTITY_KEYS
+  ).filter((key) => item[key] !== undefined);
+  if (item.tagType === "text" || keys.length === 0) {
+    return item.tagName;
+  }
+  return JSON.stringify([item.tagName, ...keys.map((key) => item[key])]);
+};
+
+/**
+ * serialize the content of a tag of a complex metadata
+ * the single entries of a list are parsed as objects, so the tag type is ignored
+ * @param item
+ */
+const metadataItemContent = ({ tagType, ...content }: MetadataItem): string =>
+  JSON.stringify(content);
+
+/**
+ * index the tags of a complex metadata by identity
+ * the tags sharing an identity are identified by their content
+ * @param xmlMetadata
  * @param rootTagName
- * @param requiredTagNames
- * @param compareFunction
+ * @param identityKeys
  */
-const diffChangesInMetadata = (
-  xmlVersion1: string,
-  xmlVersion2: string,
+const indexMetadataItems = (
+  xmlMetadata: string,
   rootTagName: string,
-  requiredTagNames: string[],
-  compareFunction: (
-    array: string[],
-    item: string,
-    itemTagName: string
-  ) => boolean
-): string => {
-  const json2xmlParser = new j2xParser(j2xOptions);
-  const jsonVersion1 = x2jParser.parse(`${xmlVersion1}`, x2jOptions);
-  const jsonVersion2 = x2jParser.parse(`${xmlVersion2}`, x2jOptions);
-  const arrayOfVersion1 = metadataToJSArray(jsonVersion1, rootTagName);
-  const arrayOfVersion2 = metadataToJSArray(jsonVersion2, rootTagName);
-
-  const diffJSON = {};
-  let noDiffFound = true;
-  for (const item of arrayOfVersion1) {
-    const jsonItem = JSON.parse(item);
-    const itemTagName: string = jsonItem.tagName;
-    const itemTagType: string = jsonItem.tagType;
-
-    delete jsonItem.tagName;
-    delete jsonItem.tagType;
-    if (compareFunction(arrayOfVersion2, item, itemTagName)) {
-      if (diffJSON[itemTagName]) {
-        diffJSON[itemTagName].push(jsonItem);
-      } else {
-        if (itemTagType === "text") {
-          diffJSON[itemTagName] = [jsonItem[itemTagName]];
-        } else {
-          diffJSON[itemTagName] = [jsonItem];
-        }
-      }
-      if (!requiredTagNames.includes(itemTagName)) {
-        noDiffFound = false;
-      }
+  identityKeys: { [tagName: string]: string[] }
+): Map<string, MetadataItem> => {
+  const items: MetadataItem[] = xmlMetadata
+    ? metadataToJSArray(
+        x2jParser.parse(`${xmlMetadata}`, x2jOptions),
+        rootTagName
+      ).map((item) => JSON.parse(item))
+    : [];
+  const identities: string[] = items.map((item) =>
+    metadataItemIdentity(item, identityKeys)
+  );
+  const index = new Map<string, MetadataItem>();
+  items.forEach((item, i) => {
+    const isUnique: boolean =
+      identities.indexOf(identities[i]) ===
+      identities.lastIndexOf(identities[i]);
+    index.set(isUnique ? identities[i] : metadataItemContent(item), item);
+  });
+  return index;
+};
+
+/**
+ * diff the entries of two versions of a complex metadata
+ * the entries are matched by identity then compared by content
+ * @param xmlFrom
+ * @param xmlTo
+ * @param rootTagName
+ * @param identityKeys the fields identifying the entries of each tag
+ */
+const diffMetadataEntries = (
+  xmlFrom: string,
+  xmlTo: string,
+  rootTagName: string,
+  identityKeys: { [tagName: string]: string[] } = {}
+): MetadataDiff => {
+  const fromItems = indexMetadataItems(xmlFrom, rootTagName, identityKeys);
+  const toItems = indexMetadataItems(xmlTo, rootTagName, identityKeys);
+  const metadataDiff: MetadataDiff = {
+    fromItems,
+    toItems,
+    added: [],
+    modified: [],
+    removed: [],
+  };
+  for (const [identity, item] of toItems) {
+    if (item.tagName === "@") {
+      continue;
     }
-    if (itemTagName === "@") {
-      diffJSON[itemTagName] = jsonItem;
+    if (!fromItems.has(identity)) {
+      metadataDiff.added.push(identity);
+    } else if (
+      metadataItemContent(fromItems.get(identity)) !== metadataItemContent(item)
+    ) {
+      metadataDiff.modified.push(identity);
     }
   }
-  // no diff (only the @ property & requiredTagNames)
-  if (noDiffFound) {
-    return "";
+  for (const [identity, item] of fromItems) {
+    if (item.tagName !== "@" && !toItems.has(identity)) {
+      metadataDiff.removed.push(identity);
+    }
   }
-  const xmlDiffMetadata: string = json2xmlParser.parse({
-    [rootTagName]: diffJSON,
-  });
-  return xmlDiffMetadata;
+  return metadataDiff;
 };
 
 /**
- * git show a file version related to a given commit
- * @param commit
- * @param sourcepath
+ * order the tags of two versions of a complex metadata like their sources
+ * the tags missing from the to version follow their previous tag of the from
+ * version
+ * @param fromItems
+ * @param toItems
  */
-const gitShow = async (commit: string, sourcepath: string): Promise<string> => {
-  const gitShow = spawn("git", ["show", `${commit}:${sourcepath}`]);
-  return new Promise((resolve, reject) => {
-    let fileContent: string = "";
-
-    gitShow.stdout.on("data", (data) => {
-      fileContent += data;
-    });
-
-    gitShow.on("error", (error) => {
-      reject(`error: ${error.message}`);
-    });
+const mergeTagOrder = (
+  fromItems: Map<string, MetadataItem>,
+  toItems: Map<string, MetadataItem>
+): string[] => {
+  const tagNames = (items: Map<string, MetadataItem>): string[] =>
+    [...items.values()]
+      .map((item) => item.tagName)
+      .filter(
+        (tagName, index, itemTagNames) =>
+          itemTagNames.indexOf(tagName) === index
+      );
+  const tagOrder: string[] = tagNames(toItems);
+  let position: number = 0;
+  for (const tagName of tagNames(fromItems)) {
+    if (tagOrder.includes(tagName)) {
+      position = tagOrder.indexOf(tagName) + 1;
+    } else {
+      tagOrder.splice(position++, 0, tagName);
+    }
+  }
+  return tagOrder;
+};
 
-    gitShow.on("close", async (code) => {
-      resolve(fileContent);
-    });
-  });
+/**
+ * build a complex metadata from some of its tags
+ * the attributes & the required tags are always kept
+ * the tags are written in the tag order, then in the order of the items
+ * @param items
+ * @param identities
+ * @param rootTagName
+ * @param requiredTagNames
+ * @param tagOrder
+ */
+const metadataItemsToXML = (
+  items: Map<string, MetadataItem>,
+  identities: string[],
+  rootTagName: string,
+  requiredTagNames: string[],
+  tagOrder: string[] = []
+): string => {
+  const jsonMetadata = {};
+  for (const [identity, item] of items) {
+    const { tagName, tagType, ...content } = item;
+    if (tagName === "@") {
+      jsonMetadata[tagName] = content;
+    } else if (
+      identities.includes(identity) ||
+      requiredTagNames.includes(tagName)
+    ) {
+      jsonMetadata[tagName] = [
+        ...(jsonMetadata[tagName] || []),
+        tagType === "text" ? content[tagName] : content,
+      ];
+    }
+  }
+  const orderedMetadata = {};
+  for (const tagName of [...tagOrder, ...Object.keys(jsonMetadata)]) {
+    if (jsonMetadata.hasOwnProperty(tagName)) {
+      orderedMetadata[tagName] = jsonMetadata[tagName];
+    }
+  }
+  return new j2xParser(j2xOptions).parse({ [rootTagName]: orderedMetadata });
 };
 
 /**
- * git diff
- * @param from
- * @param to
+ * revoke the removed entries of a complex metadata diff
+ * the removed entries are kept with their revoking values
+ * @param metadataDiff
+ * @param revocations the revoking values of each tag
  */
-const gitDiff = async (from: string, to: string): Promise<string> => {
-  let coreQuotePath;
-  try {
-    coreQuotePath = await execSync(
-      `git config --get core.quotePath`
-    ).toString();
-  } catch (e) {
-    // ignore if error
+const revokeMetadataItems = (
+  metadataDiff: MetadataDiff,
+  revocations: { [tagName: string]: { [fieldName: string]: string | boolean } }
+): Map<string, MetadataItem> => {
+  const revokedItems = new Map<string, MetadataItem>();
+  for (const identity of metadataDiff.removed) {
+    const item: MetadataItem = metadataDiff.fromItems.get(identity);
+    if (item.tagType !== "text" && revocations[item.tagName]) {
+      revokedItems.set(identity, { ...item, ...revocations[item.tagName] });
+    }
   }
-  await execSync(`git config core.quotePath false`);
-  const diffArgs = to
-    ? ["diff", "--name-status", from, to]
-    : ["diff", "--name-status", from];
-  const gitDiff = spawn("git", diffArgs);
-  return new Promise(async (resolve, reject) => {
-    let output: string = "";
-
-    gitDiff.stdout.on("data", (data) => {
-      output += data;
-    });
-
-    gitDiff.on("error", (error) => {
-      reject(`error: ${error.message}`);
-    });
-
-    gitDiff.on("close", async (code) => {
-      if (coreQuotePath) {
-        await execSync(`git config core.quotePath ${coreQuotePath}`);
-      } else {
-        await execSync(`git config --unset core.quotePath`);
-      }
-      resolve(output);
-    });
-  });
+  return revokedItems;
 };
 
+/**
+ * check if a workflow action is referenced by some workflow rules
+ * the actions are referenced by the rules & by their time triggers
+ * @param item
+ * @param rules
+ */
+const isReferencedWorkflowAction = (
+  item: MetadataItem,
+  rules: MetadataItem[]
+): boolean =>
+  rules
+    .filter((rule) => rule.tagName === "rules")
+    .some((rule) =>
+      [
+        ...[].concat(rule.actions || []),
+        ...[]
+          .concat(rule.workflowTimeTriggers || [])
+          .map((timeTrigger) => [].concat(timeTrigger.actions || []))
+          .reduce(
+            (actions, triggerActions) => [...actions, ...triggerActions],
+            []
+          ),
+      ].some(
+        (action) =>
+          WORKFLOW_ACTION_TAG_NAMES[action.type] === item.tagName &&
+          action.name === item.fullName
+      )
+    );
+
+/**
+ * list the entries of a complex metadata diff
+ * @param items
+ * @param identities
+ * @param change
+ */
+const metadataDiffEntries = (
+  items: Map<string, MetadataItem>,
+  identities: string[],
+  change: MetadataEntry["change"]
+): MetadataEntry[] =>
+  identities.map((identity) => ({
+    tagName: items.get(identity).tagName,
+    fullName: items.get(identity).fullName,
+    change,
+  }));
+
 /**
  * copy complex metadata diffs
+ * the added & modified entries are copied to the package
+ * the removed entries are copied to the destructive folder
+ * or to the package with their revoking values
+ * the unchanged entries required by the changed entries are copied too
  * @param from
  * @param to
  * @param sourcepath
  * @param metadataInfo
- * @param packageDir
- * @param destructiveDir
+ * @param options
  */
 const copyDiffOfComplexMetadata = async (
   from: string,
   to: string,
   sourcepath: string,
-  metadataInfo: { rootTagName: string; requiredTagNames: string[] },
-  packageDir: string,
-  destructiveDir?: string
-) => {
-  const xmlMetadata1: string = await gitShow(from, sourcepath);
+  metadataInfo: {
+    rootTagName: string;
+    requiredTagNames: string[];
+    identityKeys?: { [tagName: string]: string[] };
+    revocations?: {
+      [tagName: string]: { [fieldName: string]: string | boolean };
+    };
+    requiredItems?: (
+      item: MetadataItem,
+      changedItems: MetadataItem[]
+    ) => boolean;
+  },
+  options: DiffCopyOptions
+): Promise<{
+  changedEntries: MetadataEntry[];
+  deletedEntries: MetadataEntry[];
+}> => {
+  const {
+    packageDir,
+    destructiveDir,
+    projectPath = process.cwd(),
+    objectReader = gitShowObjectReader(projectPath),
+    dryrun = false,
+  } = options;
+  const [contentFrom, contentTo]: Buffer[] = await Promise.all([
+    objectReader.readFile(from, sourcepath),
+    to ? objectReader.readFile(to, sourcepath) : undefined,
+  ]);
+  const xmlMetadata1: string = contentFrom ? contentFrom.toString("utf8") : "";
   let xmlMetadata2: string;
   if (to) {
-    xmlMetadata2 = await gitShow(to, sourcepath);
+    xmlMetadata2 = contentTo ? contentTo.toString("utf8") : "";
   } else {
-    xmlMetadata2 = await readFile(`${sourcepath}`);
+    xmlMetadata2 = await readFile(path.join(projectPath, sourcepath));
   }
 
-  const xmlDiffMetadata = diffChangesInMetadata(
-    xmlMetadata2,
+  const metadataDiff: MetadataDiff = diffMetadataEntries(
     xmlMetadata1,
+    xmlMetadata2,
     metadataInfo.rootTagName,
-    metadataInfo.requiredTagNames,
-    (array, item, itemTagName) =>
-      !array.includes(item) ||
-      metadataInfo.requiredTagNames.includes(itemTagName)
+    metadataInfo.identityKeys
   );
 
-  if (xmlDiffMetadata) {
-    await writeXMLFile(`${packageDir}/${sourcepath}`, xmlDiffMetadata);
+  const revokedItems: Map<string, MetadataItem> = revokeMetadataItems(
+    metadataDiff,
+    metadataInfo.revocations || {}
+  );
+  const changedItems: MetadataItem[] = [
+    ...metadataDiff.added,
+    ...metadataDiff.modified,
+  ].map((identity) => metadataDiff.toItems.get(identity));
+  const requiredIdentities: string[] = metadataInfo.requiredItems
+    ? [...metadataDiff.toItems.keys()].filter(
+        (identity) =>
+          metadataDiff.toItems.get(identity).tagName !== "@" &&
+          !metadataDiff.added.includes(identity) &&
+          !metadataDiff.modified.includes(identity) &&
+          metadataInfo.requiredItems(
+            metadataDiff.toItems.get(identity),
+            changedItems
+          )
+      )
+    : [];
+  const changedEntries: MetadataEntry[] = [
+    ...metadataDiffEntries(metadataDiff.toItems, metadataDiff.added, "added"),
+    ...metadataDiffEntries(
+      metadataDiff.toItems,
+      metadataDiff.modified,
+      "modified"
+    ),
+    ...metadataDiffEntries(revokedItems, [...revokedItems.keys()], "revoked"),
+    ...metadataDiffEntries(
+      metadataDiff.toItems,
+      requiredIdentities,
+      "required"
+    ),
+  ];
+  if (changedEntries.length > 0 && !dryrun) {
+    await writeXMLFile(
+      `${packageDir}/${sourcepath}`,
+      metadataItemsToXML(
+        new Map([...metadataDiff.toItems, ...revokedItems]),
+        [
+          ...metadataDiff.added,
+          ...metadataDiff.modified,
+          ...revokedItems.keys(),
+          ...requiredIdentities,
+        ],
+        metadataInfo.rootTagName,
+        metadataInfo.requiredTagNames,
+        mergeTagOrder(metadataDiff.fromItems, metadataDiff.toItems)
+      )
+    );
   }
 
+  let deletedEntries: MetadataEntry[] = [];
   if (destructiveDir) {
-    const xmlDeletedMetadata = diffChangesInMetadata(
-      xmlMetadata1,
-      xmlMetadata2,
-      metadataInfo.rootTagName,
-      metadataInfo.requiredTagNames,
-      (array, item, itemTagName) =>
-        (!array.includes(item) &&
-          array.filter(
-            (el) => JSON.parse(el).fullName === JSON.parse(item).fullName
-          ).length === 0) ||
-        metadataInfo.requiredTagNames.includes(itemTagName)
+    deletedEntries = metadataDiffEntries(
+      metadataDiff.fromItems,
+      metadataDiff.removed,
+      "removed"
+    );
+  }
+  if (deletedEntries.length > 0 && !dryrun) {
+    await mkdirRecursive(
+      `${destructiveDir}/${substringBeforeLast(sourcepath, "/")}`
+    );
+    await writeXMLFile(
+      `${destructiveDir}/${sourcepath}`,
+      metadataItemsToXML(
+        metadataDiff.fromItems,
+        metadataDiff.removed,
+        metadataInfo.rootTagName,
+        metadataInfo.requiredTagNames
+      )
     );
-    if (xmlDeletedMetadata) {
-      await mkdirRecursive(
-        `${destructiveDir}/${substringBeforeLast(sourcepath, "/")}`
-      );
-      await writeXMLFile(`${destructiveDir}/${sourcepath}`, xmlDeletedMetadata);
-    }
   }
+  return { changedEntries, deletedEntries };
 };
 
 export {
+  DeltaAction,
+  DeltaEntry,
+  DeltaOptions,
+  DeltaResult,
+  DiffCopyOptions,
+  TypeFilter,
+  MetadataEntry,
+  MetadataItem,
+  MetadataDiff,
   metadataToJSArray,
-  diffChangesInMetadata,
-  gitShow,
-  gitDiff,
+  diffMetadataEntries,
+  revokeMetadataItems,
+  isReferencedWorkflowAction,
   copyDiffOfComplexMetadata,
 };
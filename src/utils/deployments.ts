@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { mkdirRecursive, readFile, writeFile } from "./utilities";
+import { GitError, gitRevParse, gitTag, gitPushTag } from "./git";
+
+const DEPLOYMENT_STATE_FILE_PATH = ".sfdx/mdt-deployments.json";
+const DEPLOYMENT_TAG_PREFIX = "mdt-deployed/";
+
+/**
+ * store of the deployed commits
+ * file: a state file in the .sfdx folder of the project
+ * tag: a git tag per org alias
+ */
+type DeploymentStore = "file" | "tag";
+
+const DEPLOYMENT_STORES: DeploymentStore[] = ["file", "tag"];
+
+/**
+ * deployed commits indexed by org alias
+ */
+type DeploymentState = {
+  [orgAlias: string]: { commit: string; date: string };
+};
+
+/**
+ * name of the tag of the commit deployed to an org
+ * @param orgAlias
+ */
+const deploymentTagName = (orgAlias: string): string =>
+  `${DEPLOYMENT_TAG_PREFIX}${orgAlias}`;
+
+/**
+ * read the deployment state file of a project
+ * @param projectPath
+ */
+const readDeploymentState = async (
+  projectPath: string
+): Promise<DeploymentState> => {
+  const stateFilePath: string = path.join(
+    projectPath,
+    DEPLOYMENT_STATE_FILE_PATH
+  );
+  return fs.existsSync(stateFilePath)
+    ? JSON.parse(await readFile(stateFilePath))
+    : {};
+};
+
+/**
+ * read the last commit deployed to an org
+ * @param projectPath
+ * @param orgAlias
+ * @param store
+ */
+const readDeployedCommit = async (
+  projectPath: string,
+  orgAlias: string,
+  store: DeploymentStore = "file"
+): Promise<string> => {
+  let commit: string;
+  if (store === "tag") {
+    try {
+      commit = await gitRevParse(
+        `refs/tags/${deploymentTagName(orgAlias)}`,
+        projectPath
+      );
+    } catch (e) {
+      if (!(e instanceof GitError)) {
+        throw e;
+      }
+    }
+  } else {
+    const deploymentState: DeploymentState = await readDeploymentState(
+      projectPath
+    );
+    commit = deploymentState[orgAlias] && deploymentState[orgAlias].commit;
+  }
+  if (!commit) {
+    throw `Error no deployed commit found for "${orgAlias}" in the deployment ${store}`;
+  }
+  return commit;
+};
+
+/**
+ * record the commit deployed to an org
+ * @param projectPath
+ * @param orgAlias
+ * @param commit
+ * @param store
+ * @param remote the remote where to push the deployment tag
+ */
+const recordDeployedCommit = async (
+  projectPath: string,
+  orgAlias: string,
+  commit: string,
+  store: DeploymentStore = "file",
+  remote?: string
+): Promise<string> => {
+  const commitSha: string = await gitRevParse(commit, projectPath);
+  if (store === "tag") {
+    await gitTag(deploymentTagName(orgAlias), commitSha, projectPath);
+    if (remote) {
+      await gitPushTag(remote, deploymentTagName(orgAlias), projectPath);
+    }
+  } else {
+    const deploymentState: DeploymentState = await readDeploymentState(
+      projectPath
+    );
+    deploymentState[orgAlias] = {
+      commit: commitSha,
+      date: new Date().toISOString(),
+    };
+    const stateFilePath: string = path.join(
+      projectPath,
+      DEPLOYMENT_STATE_FILE_PATH
+    );
+    await mkdirRecursive(path.dirname(stateFilePath));
+    await writeFile(stateFilePath, JSON.stringify(deploymentState, null, 2));
+  }
+  return commitSha;
+};
+
+export {
+  DeploymentStore,
+  DEPLOYMENT_STORES,
+  deploymentTagName,
+  readDeployedCommit,
+  recordDeployedCommit,
+};
@@ -0,0 +1,88 @@
+import { Manifest } from "./manifest";
+
+/**
+ * phase of a destructive change
+ * pre: the member is deleted before the deployment of the package
+ * post: the member is deleted after the deployment of the package
+ */
+type DestructivePhase = "pre" | "post";
+
+/**
+ * destructive changes split by phase
+ */
+type DestructiveChanges = { pre: Manifest; post: Manifest };
+
+/**
+ * build the forced phases of the destructive changes by metadata type
+ * @param preTypes the metadata types always deleted before the deployment
+ * @param postTypes the metadata types always deleted after the deployment
+ */
+const forcedDestructivePhases = (
+  preTypes: string[] = [],
+  postTypes: string[] = []
+): { [metadataTypeName: string]: DestructivePhase } => {
+  const forcedPhases: { [metadataTypeName: string]: DestructivePhase } = {};
+  for (const metadataTypeName of preTypes) {
+    if (postTypes.includes(metadataTypeName)) {
+      throw `Error the destructive changes of ${metadataTypeName} can't be forced in both phases`;
+    }
+    forcedPhases[metadataTypeName] = "pre";
+  }
+  for (const metadataTypeName of postTypes) {
+    forcedPhases[metadataTypeName] = "post";
+  }
+  return forcedPhases;
+};
+
+/**
+ * check if a member is referenced by some contents
+ * the member is searched by its name without its parent or its folder
+ * @param member
+ * @param contents
+ */
+const isMemberReferenced = (member: string, contents: string[]): boolean => {
+  const memberName: string = member.substring(
+    Math.max(member.lastIndexOf("."), member.lastIndexOf("/")) + 1
+  );
+  const reference = new RegExp(
+    `(^|[^\\w])${memberName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\w])`
+  );
+  return contents.some((content) => reference.test(content));
+};
+
+/**
+ * split the destructive changes into the pre & post deployment phases
+ * the members referenced by the previous version of the package contents are
+ * deleted after the deployment which removes the references, the other
+ * members are deleted before the deployment
+ * @param destructiveManifest
+ * @param previousContents the previous version of the package contents
+ * @param forcedPhases the forced phases by metadata type
+ */
+const splitDestructiveChanges = (
+  destructiveManifest: Manifest,
+  previousContents: string[],
+  forcedPhases: { [metadataTypeName: string]: DestructivePhase } = {}
+): DestructiveChanges => {
+  const destructiveChanges: DestructiveChanges = { pre: {}, post: {} };
+  for (const metadataTypeName of Object.keys(destructiveManifest)) {
+    for (const member of destructiveManifest[metadataTypeName]) {
+      const phase: DestructivePhase =
+        forcedPhases[metadataTypeName] ||
+        (isMemberReferenced(member, previousContents) ? "post" : "pre");
+      destructiveChanges[phase][metadataTypeName] = [
+        ...(destructiveChanges[phase][metadataTypeName] || []),
+        member,
+      ];
+    }
+  }
+  return destructiveChanges;
+};
+
+export {
+  DestructivePhase,
+  DestructiveChanges,
+  forcedDestructivePhases,
+  isMemberReferenced,
+  splitDestructiveChanges,
+};
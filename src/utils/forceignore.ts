@@ -0,0 +1,112 @@
+import * as fs from "fs";
+import * as path from "path";
+import ignore, { Ignore } from "ignore";
+
+import { readFile } from "./utilities";
+
+const FORCEIGNORE_FILE_NAME = ".forceignore";
+
+/**
+ * rules always ignored by the salesforce cli
+ */
+const DEFAULT_IGNORE_RULES = [
+  "**/*.dup",
+  "**/.*",
+  "**/package2-descriptor.json",
+  "**/package2-manifest.json",
+];
+
+/**
+ * rules of an ignore file
+ */
+type IgnoreFile = { ignoreFilePath: string; rules: Ignore };
+
+/**
+ * ignore files of a delta
+ * package: the ignore files of the changed paths
+ * destructive: the ignore files of the deleted paths
+ */
+type DeltaIgnore = { package: IgnoreFile[]; destructive: IgnoreFile[] };
+
+/**
+ * build the rules of an ignore file from its content
+ * @param ignoreFilePath
+ * @param content
+ */
+const buildIgnoreFile = (
+  ignoreFilePath: string,
+  content: string
+): IgnoreFile => ({
+  ignoreFilePath,
+  rules: ignore().add(content),
+});
+
+/**
+ * read an ignore file
+ * @param ignoreFilePath
+ */
+const readIgnoreFile = async (ignoreFilePath: string): Promise<IgnoreFile> => {
+  if (!fs.existsSync(ignoreFilePath)) {
+    throw `Error file "${ignoreFilePath}" not found`;
+  }
+  return buildIgnoreFile(ignoreFilePath, await readFile(ignoreFilePath));
+};
+
+/**
+ * load the ignore files of a delta
+ * the .forceignore of the project applies to all the paths
+ * @param projectPath
+ * @param ignoreFilePath ignore file of the changed paths only
+ * @param ignoreDestructiveFilePath ignore file of the deleted paths only
+ */
+const loadDeltaIgnore = async (
+  projectPath: string,
+  ignoreFilePath?: string,
+  ignoreDestructiveFilePath?: string
+): Promise<DeltaIgnore> => {
+  const forceignorePath: string = path.join(projectPath, FORCEIGNORE_FILE_NAME);
+  const forceignore: IgnoreFile = buildIgnoreFile(
+    FORCEIGNORE_FILE_NAME,
+    [
+      ...DEFAULT_IGNORE_RULES,
+      fs.existsSync(forceignorePath) ? await readFile(forceignorePath) : "",
+    ].join("\n")
+  );
+  const deltaIgnore: DeltaIgnore = {
+    package: [forceignore],
+    destructive: [forceignore],
+  };
+  if (ignoreFilePath) {
+    deltaIgnore.package.push(await readIgnoreFile(ignoreFilePath));
+  }
+  if (ignoreDestructiveFilePath) {
+    deltaIgnore.destructive.push(
+      await readIgnoreFile(ignoreDestructiveFilePath)
+    );
+  }
+  return deltaIgnore;
+};
+
+/**
+ * find the ignore file excluding a path
+ * the path is relative to the project folder
+ * @param ignoreFiles
+ * @param filePath
+ */
+const findIgnoreFile = (
+  ignoreFiles: IgnoreFile[],
+  filePath: string
+): string | undefined => {
+  const ignoreFile: IgnoreFile = ignoreFiles.find(({ rules }) =>
+    rules.ignores(filePath)
+  );
+  return ignoreFile ? ignoreFile.ignoreFilePath : undefined;
+};
+
+export {
+  IgnoreFile,
+  DeltaIgnore,
+  buildIgnoreFile,
+  loadDeltaIgnore,
+  findIgnoreFile,
+};
@@ -0,0 +1,455 @@
+import { spawn } from "child_process";
+
+/**
+ * configuration of every git invocation
+ * the paths are never quoted, whatever the user configuration
+ */
+const GIT_CONFIG = ["-c", "core.quotePath=false"];
+
+/**
+ * format of the commits of a git log
+ * a record separator, the sha, a unit separator, the message, a unit separator
+ */
+const GIT_LOG_FORMAT = "--format=format:%x1e%H%x1f%B%x1f";
+
+/**
+ * error of a git command exiting with a non zero code
+ */
+class GitError extends Error {
+  public readonly args: string[];
+  public readonly exitCode: number;
+  public readonly stderr: string;
+
+  constructor(args: string[], exitCode: number, stderr: string) {
+    super(
+      `git ${args.join(" ")} failed with exit code ${exitCode}${
+        stderr.trim() ? `: ${stderr.trim()}` : ""
+      }`
+    );
+    this.name = "GitError";
+    this.args = args;
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * changed file of a git diff
+ * status: the status letter (A, C, D, M, R, T...)
+ * score: the similarity of a copy or a rename
+ * path: the path of the file in the to version
+ * fromPath: the source path of a copy or a rename
+ */
+type GitDiffEntry = {
+  status: string;
+  score?: number;
+  path: string;
+  fromPath?: string;
+};
+
+/**
+ * commit of a git log
+ * sha: the full commit sha
+ * message: the raw commit message
+ * diffEntries: the files changed by the commit
+ */
+type GitCommit = {
+  sha: string;
+  message: string;
+  diffEntries: GitDiffEntry[];
+};
+
+/**
+ * reader of the file versions of a repository
+ * the source paths are relative to the working directory
+ * readFile: read a file version, undefined if the file doesn't exist
+ * close: release the git process of the reader
+ */
+type GitObjectReader = {
+  readFile: (commit: string, sourcepath: string) => Promise<Buffer | undefined>;
+  close: () => void;
+};
+
+/**
+ * run a git command
+ * the promise is rejected with a GitError if git exits with a non zero code
+ * @param args
+ * @param cwd
+ */
+const runGit = (args: string[], cwd: string = process.cwd()): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const git = spawn("git", [...GIT_CONFIG, ...args], { cwd });
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+
+    git.stdout.on("data", (data) => {
+      stdoutChunks.push(data);
+    });
+
+    git.stderr.on("data", (data) => {
+      stderrChunks.push(data);
+    });
+
+    git.on("error", (error) => {
+      reject(new GitError(args, -1, error.message));
+    });
+
+    git.on("close", (code) => {
+      if (code !== 0) {
+        reject(
+          new GitError(args, code, Buffer.concat(stderrChunks).toString("utf8"))
+        );
+      } else {
+        resolve(Buffer.concat(stdoutChunks));
+      }
+    });
+  });
+
+/**
+ * split a NUL separated git output
+ * @param output
+ */
+const splitNul = (output: string): string[] =>
+  output.split("\0").filter((token) => token);
+
+/**
+ * parse the output of git diff --name-status -z
+ * copies & renames are followed by their source and destination paths
+ * @param output
+ */
+const parseGitDiff = (output: string): GitDiffEntry[] => {
+  const tokens: string[] = splitNul(output);
+  const diffEntries: GitDiffEntry[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    const status: string = tokens[i].charAt(0);
+    const score: string = tokens[i].substring(1);
+    if (status === "R" || status === "C") {
+      diffEntries.push({
+        status,
+        score: score ? parseInt(score, 10) : undefined,
+        fromPath: tokens[i + 1],
+        path: tokens[i + 2],
+      });
+      i += 3;
+    } else {
+      diffEntries.push({ status, path: tokens[i + 1] });
+      i += 2;
+    }
+  }
+  return diffEntries;
+};
+
+/**
+ * parse the output of git log -z --name-status with the GIT_LOG_FORMAT format
+ * the changed files follow the message of each commit
+ * @param output
+ */
+const parseGitLog = (output: string): GitCommit[] =>
+  output
+    .split("\x1e")
+    .filter((record) => record)
+    .map((record) => {
+      const [sha, message, changes] = record.split("\x1f");
+      return {
+        sha,
+        message,
+        diffEntries: parseGitDiff((changes || "").replace(/^\n+/, "")),
+      };
+    });
+
+/**
+ * git show the raw content of a file version related to a given commit
+ * the source path is relative to the working directory
+ * @param commit
+ * @param sourcepath
+ * @param cwd
+ */
+const gitShowRaw = (
+  commit: string,
+  sourcepath: string,
+  cwd: string = process.cwd()
+): Promise<Buffer> => runGit(["show", `${commit}:./${sourcepath}`], cwd);
+
+/**
+ * git show a file version related to a given commit
+ * the source path is relative to the working directory
+ * @param commit
+ * @param sourcepath
+ * @param cwd
+ */
+const gitShow = async (
+  commit: string,
+  sourcepath: string,
+  cwd: string = process.cwd()
+): Promise<string> =>
+  (await gitShowRaw(commit, sourcepath, cwd)).toString("utf8");
+
+/**
+ * check if a file exists in a given commit
+ * the source path is relative to the working directory
+ * @param commit
+ * @param sourcepath
+ * @param cwd
+ */
+const gitFileExists = async (
+  commit: string,
+  sourcepath: string,
+  cwd: string = process.cwd()
+): Promise<boolean> => {
+  try {
+    await runGit(["cat-file", "-e", `${commit}:./${sourcepath}`], cwd);
+    return true;
+  } catch (e) {
+    if (e instanceof GitError && e.exitCode > 0) {
+      return false;
+    }
+    throw e;
+  }
+};
+
+/**
+ * create a reader of the file versions spawning git for each file
+ * @param cwd
+ */
+const gitShowObjectReader = (cwd: string = process.cwd()): GitObjectReader => ({
+  readFile: async (commit: string, sourcepath: string) =>
+    (await gitFileExists(commit, sourcepath, cwd))
+      ? gitShowRaw(commit, sourcepath, cwd)
+      : undefined,
+  close: () => undefined,
+});
+
+/**
+ * create a reader of the file versions sharing a git cat-file --batch process
+ * git answers the requests in order, so the pending requests are a queue
+ * @param cwd
+ */
+const gitCatFileReader = (cwd: string = process.cwd()): GitObjectReader => {
+  const args: string[] = ["cat-file", "--batch"];
+  const git = spawn("git", [...GIT_CONFIG, ...args], { cwd });
+  const pendingRequests: {
+    resolve: (content: Buffer | undefined) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+  let output: Buffer = Buffer.alloc(0);
+  let stderr: string = "";
+  let failure: Error;
+
+  const fail = (error: Error) => {
+    failure = failure || error;
+    while (pendingRequests.length > 0) {
+      pendingRequests.shift().reject(failure);
+    }
+  };
+
+  // each answer is "<oid> <type> <size>\n<content>\n" or "<object> missing\n"
+  const readAnswers = () => {
+    while (pendingRequests.length > 0) {
+      const headerEnd: number = output.indexOf("\n");
+      if (headerEnd < 0) {
+        return;
+      }
+      const header: string = output.toString("utf8", 0, headerEnd);
+      if (!/^[0-9a-f]+ \w+ \d+$/.test(header)) {
+        output = output.slice(headerEnd + 1);
+        pendingRequests.shift().resolve(undefined);
+        continue;
+      }
+      const size: number = parseInt(header.split(" ")[2], 10);
+      const contentEnd: number = headerEnd + 1 + size;
+      if (output.length <= contentEnd) {
+        return;
+      }
+      const content: Buffer = Buffer.from(
+        output.slice(headerEnd + 1, contentEnd)
+      );
+      output = output.slice(contentEnd + 1);
+      pendingRequests.shift().resolve(content);
+    }
+  };
+
+  git.stdout.on("data", (data) => {
+    output = Buffer.concat([output, data]);
+    readAnswers();
+  });
+
+  git.stderr.on("data", (data) => {
+    stderr += data;
+  });
+
+  git.stdin.on("error", (error) => {
+    fail(new GitError(args, -1, error.message));
+  });
+
+  git.on("error", (error) => {
+    fail(new GitError(args, -1, error.message));
+  });
+
+  git.on("close", (code) => {
+    fail(new GitError(args, code, stderr || "the process is closed"));
+  });
+
+  return {
+    readFile: (commit: string, sourcepath: string) =>
+      failure
+        ? Promise.reject(failure)
+        : new Promise((resolve, reject) => {
+            pendingRequests.push({ resolve, reject });
+            git.stdin.write(`${commit}:./${sourcepath}\n`);
+          }),
+    close: () => {
+      git.stdin.end();
+    },
+  };
+};
+
+/**
+ * git ls-tree the files of a given commit
+ * the file paths are relative to the working directory
+ * @param commit
+ * @param cwd
+ */
+const gitLsTree = async (
+  commit: string,
+  cwd: string = process.cwd()
+): Promise<string[]> =>
+  splitNul(
+    (
+      await runGit(["ls-tree", "-r", "-z", "--name-only", commit], cwd)
+    ).toString("utf8")
+  );
+
+/**
+ * git diff
+ * the paths are relative to the working directory
+ * @param from
+ * @param to
+ * @param cwd
+ */
+const gitDiff = async (
+  from: string,
+  to: string,
+  cwd: string = process.cwd()
+): Promise<GitDiffEntry[]> => {
+  const diffArgs: string[] = [
+    "diff",
+    "--name-status",
+    "-z",
+    "--relative",
+    from,
+  ];
+  if (to) {
+    diffArgs.push(to);
+  }
+  return parseGitDiff((await runGit(diffArgs, cwd)).toString("utf8"));
+};
+
+/**
+ * git log the non merge commits of a range with their changed files
+ * the commits are ordered from the newest, the paths are relative to the
+ * working directory and the renames are split into deletions & additions
+ * @param from
+ * @param to
+ * @param cwd
+ */
+const gitLog = async (
+  from: string,
+  to: string,
+  cwd: string = process.cwd()
+): Promise<GitCommit[]> =>
+  parseGitLog(
+    (
+      await runGit(
+        [
+          "log",
+          "-z",
+          "--no-merges",
+          "--no-renames",
+          "--name-status",
+          "--relative",
+          GIT_LOG_FORMAT,
+          `${from}..${to}`,
+        ],
+        cwd
+      )
+    ).toString("utf8")
+  );
+
+/**
+ * resolve a revision to its commit sha
+ * @param revision
+ * @param cwd
+ */
+const gitRevParse = async (
+  revision: string,
+  cwd: string = process.cwd()
+): Promise<string> =>
+  (await runGit(["rev-parse", "--verify", `${revision}^{commit}`], cwd))
+    .toString("utf8")
+    .trim();
+
+/**
+ * find the best common ancestor of two revisions
+ * @param revision1
+ * @param revision2
+ * @param cwd
+ */
+const gitMergeBase = async (
+  revision1: string,
+  revision2: string,
+  cwd: string = process.cwd()
+): Promise<string> =>
+  (await runGit(["merge-base", revision1, revision2], cwd))
+    .toString("utf8")
+    .trim();
+
+/**
+ * create or move a tag to a commit
+ * @param tagName
+ * @param commit
+ * @param cwd
+ */
+const gitTag = async (
+  tagName: string,
+  commit: string,
+  cwd: string = process.cwd()
+): Promise<void> => {
+  await runGit(["tag", "--force", tagName, commit], cwd);
+};
+
+/**
+ * push a tag to a remote, replacing the remote tag
+ * @param remote
+ * @param tagName
+ * @param cwd
+ */
+const gitPushTag = async (
+  remote: string,
+  tagName: string,
+  cwd: string = process.cwd()
+): Promise<void> => {
+  await runGit(["push", "--force", remote, `refs/tags/${tagName}`], cwd);
+};
+
+export {
+  GitError,
+  GitDiffEntry,
+  GitCommit,
+  GitObjectReader,
+  runGit,
+  parseGitDiff,
+  parseGitLog,
+  gitShowRaw,
+  gitShow,
+  gitFileExists,
+  gitShowObjectReader,
+  gitCatFileReader,
+  gitLsTree,
+  gitDiff,
+  gitLog,
+  gitRevParse,
+  gitMergeBase,
+  gitTag,
+  gitPushTag,
+};
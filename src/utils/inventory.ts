@@ -0,0 +1,246 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+  listMetadataFullNames,
+  listSObjectFieldNames,
+  listSObjectNames,
+  listUserPermissionNames,
+} from "./adapt";
+import { Manifest, addManifestMember, resolveMetadataMember } from "./manifest";
+import { SfdxProject, readProject } from "./project";
+import {
+  MetadataRegistry,
+  loadMetadataRegistry,
+  metadataRegistry,
+} from "./registry";
+import { listFilesRecursive, readFile } from "./utilities";
+
+/**
+ * inventory of the metadata members existing in a target
+ * listFullNames: list the full names of the members of a metadata type,
+ * undefined if the metadata type is unknown to the inventory
+ * listUserPermissions: list the user permission names, if known
+ * listSObjects: list the sobject names, if described
+ * listSObjectFields: list the field names of a sobject, if described
+ * standardMembers: false if the standard members aren't listed, like the
+ * standard objects missing from a local source tree
+ */
+type MetadataInventory = {
+  listFullNames: (metadataTypeName: string) => Promise<string[] | undefined>;
+  listUserPermissions?: () => Promise<string[]>;
+  listSObjects?: () => Promise<string[]>;
+  listSObjectFields?: (sObjectName: string) => Promise<string[]>;
+  standardMembers: boolean;
+};
+
+/**
+ * snapshot of the metadata inventory of an org stored as json
+ * metadata: the full names of the members by metadata type
+ * userPermissions: the user permission names of the profile object
+ */
+type InventorySnapshot = {
+  metadata: { [metadataTypeName: string]: string[] };
+  userPermissions: string[];
+};
+
+/**
+ * inventory of the metadata of an org
+ * the list & describe results are cached, the first listing lists all the
+ * expected metadata types by batches
+ * @param conn
+ * @param metadataTypeNames the metadata types expected to be listed
+ */
+const orgInventory = (
+  conn,
+  metadataTypeNames: string[] = []
+): MetadataInventory => {
+  const metadataFullNames: { [metadataTypeName: string]: Promise<string[]> } =
+    {};
+  let userPermissions: Promise<string[]>;
+  let sObjectNames: Promise<string[]>;
+  const sObjectFieldNames: { [sObjectName: string]: Promise<string[]> } = {};
+  return {
+    listFullNames: (metadataTypeName: string) => {
+      const unlistedTypeNames: string[] = [
+        ...metadataTypeNames,
+        metadataTypeName,
+      ].filter(
+        (typeName, index, typeNames) =>
+          !metadataFullNames[typeName] && typeNames.indexOf(typeName) === index
+      );
+      if (unlistedTypeNames.length > 0) {
+        const listing = listMetadataFullNames(conn, unlistedTypeNames);
+        for (const typeName of unlistedTypeNames) {
+          metadataFullNames[typeName] = listing.then(
+            (fullNames) => fullNames[typeName]
+          );
+        }
+      }
+      return metadataFullNames[metadataTypeName];
+    },
+    listUserPermissions: () => {
+      userPermissions = userPermissions || listUserPermissionNames(conn);
+      return userPermissions;
+    },
+    listSObjects: () => {
+      sObjectNames = sObjectNames || listSObjectNames(conn);
+      return sObjectNames;
+    },
+    listSObjectFields: (sObjectName: string) => {
+      sObjectFieldNames[sObjectName] =
+        sObjectFieldNames[sObjectName] ||
+        listSObjectFieldNames(conn, sObjectName);
+      return sObjectFieldNames[sObjectName];
+    },
+    standardMembers: true,
+  };
+};
+
+/**
+ * take a snapshot of the metadata inventory of an org
+ * @param conn
+ * @param metadataTypeNames
+ */
+const takeInventorySnapshot = async (
+  conn,
+  metadataTypeNames: string[]
+): Promise<InventorySnapshot> => ({
+  metadata: await listMetadataFullNames(conn, metadataTypeNames),
+  userPermissions: await listUserPermissionNames(conn),
+});
+
+/**
+ * read a snapshot of the metadata inventory of an org
+ * @param filePath
+ */
+const readInventorySnapshot = async (
+  filePath: string
+): Promise<InventorySnapshot> => {
+  if (!fs.existsSync(filePath)) {
+    throw `Error inventory file "${filePath}" not found`;
+  }
+  let snapshot: InventorySnapshot;
+  try {
+    snapshot = JSON.parse(await readFile(filePath));
+  } catch (e) {
+    throw `Error invalid inventory file "${filePath}"`;
+  }
+  if (!snapshot || typeof snapshot.metadata !== "object") {
+    throw `Error invalid inventory file "${filePath}"`;
+  }
+  return snapshot;
+};
+
+/**
+ * inventory of the metadata of an org snapshot
+ * the metadata types missing from the snapshot can't be listed
+ * @param snapshot
+ */
+const snapshotInventory = (snapshot: InventorySnapshot): MetadataInventory => ({
+  listFullNames: async (metadataTypeName: string) => {
+    if (!snapshot.metadata[metadataTypeName]) {
+      throw `Error the inventory snapshot doesn't list the ${metadataTypeName} metadata type`;
+    }
+    return snapshot.metadata[metadataTypeName];
+  },
+  listUserPermissions: snapshot.userPermissions
+    ? async () => snapshot.userPermissions
+    : undefined,
+  standardMembers: true,
+});
+
+/**
+ * inventory of the metadata of the package directories of a project
+ * the metadata types the registry can't resolve are unknown
+ * @param projectPath
+ * @param packageDirectories
+ * @param registry
+ */
+const sourceInventory = async (
+  projectPath: string,
+  packageDirectories: string[],
+  registry: MetadataRegistry = metadataRegistry
+): Promise<MetadataInventory> => {
+  const manifest: Manifest = {};
+  for (const packageDirectory of packageDirectories) {
+    const packageDirectoryPath: string = path.join(
+      projectPath,
+      packageDirectory
+    );
+    if (!fs.existsSync(packageDirectoryPath)) {
+      continue;
+    }
+    for (const filePath of await listFilesRecursive(packageDirectoryPath)) {
+      addManifestMember(
+        manifest,
+        resolveMetadataMember(
+          path.posix.join(packageDirectory, filePath),
+          packageDirectories,
+          registry
+        )
+      );
+    }
+  }
+  const registeredTypeNames: string[] = [];
+  for (const directoryName of Object.keys(registry)) {
+    registeredTypeNames.push(
+      registry[directoryName].xmlName,
+      ...(registry[directoryName].children || []).map(
+        (childType) => childType.xmlName
+      )
+    );
+  }
+  return {
+    listFullNames: async (metadataTypeName: string) =>
+      registeredTypeNames.includes(metadataTypeName)
+        ? manifest[metadataTypeName] || []
+        : undefined,
+    standardMembers: false,
+  };
+};
+
+/**
+ * load the inventory an adaptation is run against
+ * an inventory snapshot, the local package directories or an org
+ * @param conn the connection of the org, undefined without target org
+ * @param metadataTypeNames the metadata types expected to be listed
+ * @param offline use the local package directories instead of the org
+ * @param inventoryFile use an inventory snapshot instead of the org
+ */
+const loadInventory = async (
+  conn,
+  metadataTypeNames: string[],
+  offline: boolean = false,
+  inventoryFile?: string
+): Promise<MetadataInventory> => {
+  if (offline && inventoryFile) {
+    throw "Error --offline and --inventory can't be used together";
+  }
+  if (inventoryFile) {
+    return snapshotInventory(await readInventorySnapshot(inventoryFile));
+  }
+  if (offline) {
+    const project: SfdxProject = await readProject();
+    return sourceInventory(
+      project.projectPath,
+      project.packageDirectories,
+      await loadMetadataRegistry(project.projectPath)
+    );
+  }
+  if (!conn) {
+    throw "Error a target org is required unless --offline or --inventory is used";
+  }
+  return orgInventory(conn, metadataTypeNames);
+};
+
+export {
+  MetadataInventory,
+  InventorySnapshot,
+  orgInventory,
+  sourceInventory,
+  takeInventorySnapshot,
+  readInventorySnapshot,
+  snapshotInventory,
+  loadInventory,
+};
@@ -0,0 +1,285 @@
+import { j2xParser } from "fast-xml-parser";
+import { j2xOptions } from "../config/fastXMLOptions";
+import { MetadataType } from "../config/metadataTypes";
+
+import { substringBefore, writeXMLFile } from "./utilities";
+import { findPackageDirectory } from "./project";
+import {
+  MetadataRegistry,
+  metadataRegistry,
+  resolveMetadataType,
+} from "./registry";
+
+const API_VERSION = "51.0";
+
+/**
+ * metadata members indexed by metadata type name
+ */
+type Manifest = { [metadataTypeName: string]: string[] };
+
+/**
+ * metadata member
+ */
+type MetadataMember = { type: string; member: string };
+
+/**
+ * Remove the meta suffix & the metadata suffix from a file name
+ * @param fileName
+ * @param suffix
+ */
+const fileNameToMemberName = (fileName: string, suffix?: string): string => {
+  let memberName = fileName.replace(/-meta\.xml$/, "");
+  if (suffix && memberName.endsWith(`.${suffix}`)) {
+    memberName = memberName.substring(0, memberName.length - suffix.length - 1);
+  }
+  return memberName;
+};
+
+/**
+ * check if a file is the meta file of a folder of a foldered type
+ * the folders of the reports are named Folder.reportFolder-meta.xml
+ * @param fileName
+ * @param metadataType
+ */
+const isFolderMetaFile = (
+  fileName: string,
+  metadataType: MetadataType
+): boolean =>
+  !!metadataType.inFolder &&
+  fileName.endsWith(`.${metadataType.suffix}Folder-meta.xml`);
+
+/**
+ * metadata folder of a source file
+ * metadataFolderPath: the path of the metadata type folder
+ * directoryName: the name of the metadata type folder
+ * parts: the path parts starting from the metadata type folder
+ */
+type MetadataFolder = {
+  metadataFolderPath: string;
+  directoryName: string;
+  parts: string[];
+};
+
+/**
+ * resolve the metadata type folder of a source file
+ * the first known metadata folder under the package directory is used
+ * @param filePath
+ * @param packageDirectories
+ * @param registry
+ */
+const resolveMetadataFolder = (
+  filePath: string,
+  packageDirectories: string[],
+  registry: MetadataRegistry = metadataRegistry
+): MetadataFolder | undefined => {
+  const packageDirectory: string = findPackageDirectory(
+    filePath,
+    packageDirectories
+  );
+  if (packageDirectory === undefined) {
+    return undefined;
+  }
+  const packageParts: string[] =
+    packageDirectory === "." ? [] : packageDirectory.split("/");
+  const filePathParts: string[] = filePath.split("/");
+  for (let i = packageParts.length; i < filePathParts.length - 1; i++) {
+    if (registry.hasOwnProperty(filePathParts[i])) {
+      return {
+        metadataFolderPath: filePathParts.slice(0, i + 1).join("/"),
+        directoryName: filePathParts[i],
+        parts: filePathParts.slice(i),
+      };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * resolve the metadata type and member name of a source file
+ * @param filePath
+ * @param packageDirectories
+ * @param registry
+ */
+const resolveMetadataMember = (
+  filePath: string,
+  packageDirectories: string[],
+  registry: MetadataRegistry = metadataRegistry
+): MetadataMember | undefined => {
+  const metadataFolder = resolveMetadataFolder(
+    filePath,
+    packageDirectories,
+    registry
+  );
+  if (!metadataFolder) {
+    return undefined;
+  }
+  const parts: string[] = metadataFolder.parts;
+  const metadataType: MetadataType = resolveMetadataType(parts, registry);
+  if (!metadataType) {
+    return undefined;
+  }
+  const fileName: string = parts[parts.length - 1];
+
+  /** bundles are named after their folder or their files */
+  if (metadataType.strategy === "bundle") {
+    if (parts.length === 2 && !metadataType.suffix) {
+      return undefined;
+    }
+    return {
+      type: metadataType.xmlName,
+      member: substringBefore(`${parts[1]}.`, "."),
+    };
+  }
+
+  /** members of foldered types are prefixed by their folder */
+  if (metadataType.inFolder) {
+    if (parts.length === 2) {
+      return {
+        type: metadataType.xmlName,
+        member: substringBefore(`${fileName}.`, "."),
+      };
+    }
+    return {
+      type: metadataType.xmlName,
+      member: [
+        ...parts.slice(1, -1),
+        isFolderMetaFile(fileName, metadataType)
+          ? substringBefore(fileName, ".")
+          : fileNameToMemberName(fileName, metadataType.suffix),
+      ].join("/"),
+    };
+  }
+
+  /** decomposed metadata */
+  if (registry[parts[0]].children && parts.length > 2) {
+    const parentName: string = parts[1];
+    return {
+      type: metadataType.xmlName,
+      member:
+        metadataType === registry[parts[0]] || metadataType.parentMember
+          ? parentName
+          : `${parentName}.${fileNameToMemberName(
+              fileName,
+              metadataType.suffix
+            )}`,
+    };
+  }
+
+  return {
+    type: metadataType.xmlName,
+    member: fileNameToMemberName(fileName, metadataType.suffix),
+  };
+};
+
+/**
+ * resolve the member name of a child tag of a metadata file
+ * @param filePath
+ * @param tagName
+ * @param fullName
+ * @param packageDirectories
+ * @param registry
+ */
+const resolveChildMetadataMember = (
+  filePath: string,
+  tagName: string,
+  fullName: string,
+  packageDirectories: string[],
+  registry: MetadataRegistry = metadataRegistry
+): MetadataMember | undefined => {
+  const parentMember = resolveMetadataMember(
+    filePath,
+    packageDirectories,
+    registry
+  );
+  if (!parentMember || !fullName) {
+    return undefined;
+  }
+  const metadataType: MetadataType = resolveMetadataType(
+    resolveMetadataFolder(filePath, packageDirectories, registry).parts,
+    registry
+  );
+  const childXmlName: string =
+    metadataType.childXmlNames && metadataType.childXmlNames[tagName];
+  if (!childXmlName) {
+    return undefined;
+  }
+  return {
+    type: childXmlName,
+    member: metadataType.unprefixedChildren
+      ? fullName
+      : `${parentMember.member}.${fullName}`,
+  };
+};
+
+/**
+ * add a member to a manifest
+ * @param manifest
+ * @param metadataMember
+ */
+const addManifestMember = (
+  manifest: Manifest,
+  metadataMember: MetadataMember | undefined
+) => {
+  if (!metadataMember) {
+    return;
+  }
+  const members: string[] = manifest[metadataMember.type] || [];
+  if (!members.includes(metadataMember.member)) {
+    members.push(metadataMember.member);
+  }
+  manifest[metadataMember.type] = members;
+};
+
+/**
+ * generate the package xml of a manifest
+ * @param manifest
+ * @param apiVersion
+ */
+const generatePackageXML = (
+  manifest: Manifest,
+  apiVersion: string = API_VERSION
+): string => {
+  const json2xmlParser = new j2xParser(j2xOptions);
+  const types = Object.keys(manifest)
+    .sort()
+    .map((metadataTypeName) => ({
+      members: [...manifest[metadataTypeName]].sort(),
+      name: metadataTypeName,
+    }));
+  return json2xmlParser.parse({
+    Package: {
+      "@": {
+        xmlns: "http://soap.sforce.com/2006/04/metadata",
+      },
+      ...(types.length > 0 ? { types } : {}),
+      version: apiVersion,
+    },
+  });
+};
+
+/**
+ * write the package xml of a manifest
+ * @param path
+ * @param manifest
+ * @param apiVersion
+ */
+const writeManifest = async (
+  path: string,
+  manifest: Manifest,
+  apiVersion?: string
+): Promise<void> => {
+  await writeXMLFile(path, generatePackageXML(manifest, apiVersion));
+};
+
+export {
+  Manifest,
+  MetadataMember,
+  MetadataFolder,
+  isFolderMetaFile,
+  resolveMetadataFolder,
+  resolveMetadataMember,
+  resolveChildMetadataMember,
+  addManifestMember,
+  generatePackageXML,
+  writeManifest,
+};
@@ -0,0 +1,309 @@
+import * as AdmZip from "adm-zip";
+import * as fs from "fs";
+import * as path from "path";
+import * as x2jParser from "fast-xml-parser";
+import { j2xParser } from "fast-xml-parser";
+import { j2xOptions, x2jOptions } from "../config/fastXMLOptions";
+import { MetadataType } from "../config/metadataTypes";
+
+import {
+  copyFile,
+  listFilesRecursive,
+  mkdirRecursive,
+  readFile,
+  writeXMLFile,
+} from "./utilities";
+import {
+  MetadataFolder,
+  isFolderMetaFile,
+  resolveMetadataFolder,
+} from "./manifest";
+import { findPackageDirectory } from "./project";
+import {
+  MetadataRegistry,
+  metadataRegistry,
+  resolveMetadataType,
+} from "./registry";
+
+const METADATA_NAMESPACE = "http://soap.sforce.com/2006/04/metadata";
+
+/**
+ * xml element of a metadata file, the attributes are under the "@" key
+ */
+type MetadataElement = { [tagName: string]: unknown };
+
+/**
+ * metadata file of the metadata api format composed from several source files
+ */
+type ComposedFile = { rootTagName: string; element: MetadataElement };
+
+/**
+ * parse the root element of a metadata xml file
+ * @param xmlContent
+ */
+const parseRootElement = (xmlContent: string): ComposedFile => {
+  const jsonContent = x2jParser.parse(xmlContent, x2jOptions);
+  const rootTagName: string = Object.keys(jsonContent).find(
+    (tagName) => !tagName.startsWith("?")
+  );
+  const element = jsonContent[rootTagName];
+  return {
+    rootTagName,
+    element: typeof element === "object" ? element : {},
+  };
+};
+
+/**
+ * merge the tags of an element into a composed element
+ * the entries of the tags found in both elements are concatenated
+ * @param composedElement
+ * @param element
+ */
+const mergeElement = (
+  composedElement: MetadataElement,
+  element: MetadataElement
+): void => {
+  for (const tagName of Object.keys(element)) {
+    if (tagName === "@") {
+      composedElement["@"] = composedElement["@"] || element["@"];
+    } else if (composedElement.hasOwnProperty(tagName)) {
+      composedElement[tagName] = [
+        ...[].concat(composedElement[tagName]),
+        ...[].concat(element[tagName]),
+      ];
+    } else {
+      composedElement[tagName] = element[tagName];
+    }
+  }
+};
+
+/**
+ * add a source file to a composed file of the metadata api format
+ * @param composedFiles
+ * @param mdapiFilePath
+ * @param rootTagName
+ * @param xmlContent
+ * @param childTagName the tag of the decomposed child in the composed file
+ */
+const composeFile = (
+  composedFiles: { [mdapiFilePath: string]: ComposedFile },
+  mdapiFilePath: string,
+  rootTagName: string,
+  xmlContent: string,
+  childTagName?: string
+): void => {
+  const composedFile: ComposedFile = composedFiles[mdapiFilePath] || {
+    rootTagName,
+    element: {},
+  };
+  composedFiles[mdapiFilePath] = composedFile;
+  const { element } = parseRootElement(xmlContent);
+  if (childTagName) {
+    const { "@": attributes, ...childElement } = element;
+    mergeElement(composedFile.element, { [childTagName]: childElement });
+  } else {
+    mergeElement(composedFile.element, element);
+  }
+};
+
+/**
+ * write a composed file of the metadata api format
+ * the tags are sorted by name
+ * @param filePath
+ * @param composedFile
+ */
+const writeComposedFile = async (
+  filePath: string,
+  composedFile: ComposedFile
+): Promise<void> => {
+  const { "@": attributes, ...element } = composedFile.element;
+  const sortedElement: MetadataElement = {
+    "@": attributes || { xmlns: METADATA_NAMESPACE },
+  };
+  for (const tagName of Object.keys(element).sort()) {
+    sortedElement[tagName] = element[tagName];
+  }
+  await mkdirRecursive(path.dirname(filePath));
+  await writeXMLFile(
+    filePath,
+    new j2xParser(j2xOptions).parse({
+      [composedFile.rootTagName]: sortedElement,
+    })
+  );
+};
+
+/**
+ * zip the content of a directory
+ * @param dirPath
+ * @param zipFilePath
+ */
+const zipDirectory = async (
+  dirPath: string,
+  zipFilePath: string
+): Promise<void> => {
+  const zip = new AdmZip();
+  zip.addLocalFolder(dirPath);
+  await mkdirRecursive(path.dirname(path.resolve(zipFilePath)));
+  zip.writeZip(zipFilePath);
+};
+
+/**
+ * name of a source file in the metadata api format
+ * the -meta.xml suffix is kept only by the files having a content file
+ * @param fileName
+ * @param metadataType
+ * @param sourceFolderPath the folder of the source file
+ */
+const mdapiFileName = (
+  fileName: string,
+  metadataType: MetadataType,
+  sourceFolderPath: string
+): string => {
+  if (!fileName.endsWith("-meta.xml")) {
+    return fileName;
+  }
+  /** folders: Folder.reportFolder-meta.xml -> Folder-meta.xml */
+  if (isFolderMetaFile(fileName, metadataType)) {
+    return fileName.replace(/\.\w+Folder-meta\.xml$/, "-meta.xml");
+  }
+  /** documents: doc.document-meta.xml -> doc.png-meta.xml */
+  const suffixedName: string = `.${metadataType.suffix}-meta.xml`;
+  if (metadataType.xmlName === "Document" && fileName.endsWith(suffixedName)) {
+    const documentName: string = fileName.substring(
+      0,
+      fileName.length - suffixedName.length
+    );
+    const documentFileName: string = fs
+      .readdirSync(sourceFolderPath)
+      .find(
+        (siblingName) =>
+          siblingName.startsWith(`${documentName}.`) && siblingName !== fileName
+      );
+    return documentFileName ? `${documentFileName}-meta.xml` : fileName;
+  }
+  const contentFileName: string = fileName.replace(/-meta\.xml$/, "");
+  return fs.existsSync(path.join(sourceFolderPath, contentFileName))
+    ? fileName
+    : contentFileName;
+};
+
+/**
+ * convert a package of the source format to the metadata api format
+ * the decomposed files are recomposed into their parent file, the labels are
+ * merged, the static resource folders are zipped and the -meta.xml suffixes of
+ * the files without content are removed
+ * the files outside the package directories, like the manifests, are not
+ * converted, the files of unknown metadata types fail the conversion
+ * @param sourceDir the package directory of the source format
+ * @param packageDirectories the package directories of the project
+ * @param outputDir the package directory of the metadata api format
+ * @param registry
+ */
+const convertToMdapi = async (
+  sourceDir: string,
+  packageDirectories: string[],
+  outputDir: string,
+  registry: MetadataRegistry = metadataRegistry
+): Promise<void> => {
+  const composedFiles: { [mdapiFilePath: string]: ComposedFile } = {};
+  const staticResourceFolders: { [mdapiFilePath: string]: string } = {};
+  for (const filePath of (await listFilesRecursive(sourceDir)).sort()) {
+    const metadataFolder: MetadataFolder = resolveMetadataFolder(
+      filePath,
+      packageDirectories,
+      registry
+    );
+    const metadataType: MetadataType =
+      metadataFolder && resolveMetadataType(metadataFolder.parts, registry);
+    if (!metadataType) {
+      if (
+        filePath.includes("/") &&
+        findPackageDirectory(filePath, packageDirectories)
+      ) {
+        throw `Error "${filePath}" isn't a known metadata file`;
+      }
+      continue;
+    }
+    const { directoryName, parts } = metadataFolder;
+    const parentType: MetadataType = registry[directoryName];
+    const sourceFilePath: string = path.join(sourceDir, filePath);
+    const fileName: string = parts[parts.length - 1];
+
+    /** decomposed files are recomposed into their parent file */
+    if (parentType.children && !parentType.uncomposed && parts.length > 2) {
+      const childTagName: string =
+        metadataType === parentType
+          ? undefined
+          : metadataType.tagName || metadataType.directoryName;
+      composeFile(
+        composedFiles,
+        `${directoryName}/${parts[1]}.${parentType.suffix}`,
+        parentType.xmlName,
+        await readFile(sourceFilePath),
+        childTagName
+      );
+      continue;
+    }
+
+    /** labels are merged into a single file */
+    if (metadataType.xmlName === "CustomLabels") {
+      composeFile(
+        composedFiles,
+        `${directoryName}/${metadataType.rootTagName}.${metadataType.suffix}`,
+        metadataType.rootTagName,
+        await readFile(sourceFilePath)
+      );
+      continue;
+    }
+
+    /** static resources are named .resource, their folders are zipped */
+    if (metadataType.xmlName === "StaticResource") {
+      const resourceName: string = parts[1].split(".")[0];
+      const resourceFilePath: string = `${directoryName}/${resourceName}.${metadataType.suffix}`;
+      if (parts.length > 2) {
+        staticResourceFolders[resourceFilePath] = path.join(
+          sourceDir,
+          metadataFolder.metadataFolderPath,
+          parts[1]
+        );
+      } else {
+        const resourceMdapiFilePath: string = fileName.endsWith("-meta.xml")
+          ? `${resourceFilePath}-meta.xml`
+          : resourceFilePath;
+        await mkdirRecursive(
+          path.dirname(path.join(outputDir, resourceMdapiFilePath))
+        );
+        await copyFile(
+          sourceFilePath,
+          path.join(outputDir, resourceMdapiFilePath)
+        );
+      }
+      continue;
+    }
+
+    const mdapiFilePath: string = [
+      directoryName,
+      ...parts.slice(1, -1),
+      metadataType.strategy === "bundle"
+        ? fileName
+        : mdapiFileName(fileName, metadataType, path.dirname(sourceFilePath)),
+    ].join("/");
+    await mkdirRecursive(path.dirname(path.join(outputDir, mdapiFilePath)));
+    await copyFile(sourceFilePath, path.join(outputDir, mdapiFilePath));
+  }
+
+  for (const mdapiFilePath of Object.keys(composedFiles)) {
+    await writeComposedFile(
+      path.join(outputDir, mdapiFilePath),
+      composedFiles[mdapiFilePath]
+    );
+  }
+  for (const mdapiFilePath of Object.keys(staticResourceFolders)) {
+    await zipDirectory(
+      staticResourceFolders[mdapiFilePath],
+      path.join(outputDir, mdapiFilePath)
+    );
+  }
+};
+
+export { convertToMdapi, zipDirectory };
@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { readFile } from "./utilities";
+
+const PROJECT_FILE_NAME = "sfdx-project.json";
+const DEFAULT_PACKAGE_DIRECTORY = "force-app";
+
+/**
+ * sfdx project
+ * projectPath: the absolute path of the project folder
+ * packageDirectories: the package directories relative to the project folder
+ * sourceApiVersion: the api version of the project
+ */
+type SfdxProject = {
+  projectPath: string;
+  packageDirectories: string[];
+  sourceApiVersion?: string;
+};
+
+/**
+ * normalize a package directory path
+ * @param packageDirectory
+ */
+const normalizePackageDirectory = (packageDirectory: string): string =>
+  path.posix
+    .normalize(packageDirectory.replace(/\\/g, "/"))
+    .replace(/^\.\//, "")
+    .replace(/\/$/, "");
+
+/**
+ * find the closest folder containing a sfdx project file
+ * @param dir
+ */
+const findProjectPath = (dir: string): string | undefined => {
+  let currentDir: string = path.resolve(dir);
+  while (!fs.existsSync(path.join(currentDir, PROJECT_FILE_NAME))) {
+    const parentDir: string = path.dirname(currentDir);
+    if (parentDir === currentDir) {
+      return undefined;
+    }
+    currentDir = parentDir;
+  }
+  return currentDir;
+};
+
+/**
+ * read the sfdx project containing a given directory
+ * fallback to the default package directory if no project file is found
+ * @param dir
+ */
+const readProject = async (
+  dir: string = process.cwd()
+): Promise<SfdxProject> => {
+  const projectPath: string = findProjectPath(dir);
+  if (!projectPath) {
+    return {
+      projectPath: path.resolve(dir),
+      packageDirectories: [DEFAULT_PACKAGE_DIRECTORY],
+    };
+  }
+  const projectJSON = JSON.parse(
+    await readFile(path.join(projectPath, PROJECT_FILE_NAME))
+  );
+  const packageDirectories: string[] = (
+    projectJSON.packageDirectories || []
+  ).map((packageDirectory) => normalizePackageDirectory(packageDirectory.path));
+  return {
+    projectPath,
+    packageDirectories,
+    sourceApiVersion: projectJSON.sourceApiVersion,
+  };
+};
+
+/**
+ * find the package directory of a project file
+ * @param filePath
+ * @param packageDirectories
+ */
+const findPackageDirectory = (
+  filePath: string,
+  packageDirectories: string[]
+): string | undefined =>
+  packageDirectories.find(
+    (packageDirectory) =>
+      packageDirectory === "." || filePath.startsWith(`${packageDirectory}/`)
+  );
+
+export { SfdxProject, readProject, findPackageDirectory };
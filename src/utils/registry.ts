@@ -0,0 +1,133 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  DeltaStrategy,
+  MetadataType,
+  metadataTypes,
+} from "../config/metadataTypes";
+
+import { readFile } from "./utilities";
+
+const REGISTRY_FILE_NAME = "mdt-registry.json";
+const DELTA_STRATEGIES: DeltaStrategy[] = ["file", "bundle", "child", "diff"];
+
+/**
+ * metadata types indexed by their directory name
+ */
+type MetadataRegistry = { [directoryName: string]: MetadataType };
+
+/**
+ * metadata type of a registry file, validated when it's registered
+ * the directory name identifies the overridden type of the base registry
+ * the strategy isn't checked yet, the json file may contain any string
+ */
+type MetadataTypeOverride = Partial<Omit<MetadataType, "strategy">> & {
+  directoryName: string;
+  strategy?: string;
+};
+
+/**
+ * check if a strategy is a delta strategy
+ * @param strategy
+ */
+const isDeltaStrategy = (strategy: string): strategy is DeltaStrategy =>
+  DELTA_STRATEGIES.some((deltaStrategy) => deltaStrategy === strategy);
+
+/**
+ * build a registry from a list of metadata types
+ * the types override the types of the base registry with the same directory
+ * @param metadataTypeList
+ * @param baseRegistry
+ */
+const buildMetadataRegistry = (
+  metadataTypeList: MetadataTypeOverride[],
+  baseRegistry: MetadataRegistry = {}
+): MetadataRegistry => {
+  const registry: MetadataRegistry = { ...baseRegistry };
+  for (const metadataType of metadataTypeList) {
+    const registeredType = {
+      ...registry[metadataType.directoryName],
+      ...metadataType,
+    };
+    const { xmlName, directoryName, strategy } = registeredType;
+    if (!xmlName || !directoryName) {
+      throw `Error metadata type "${JSON.stringify(
+        metadataType
+      )}" requires a xmlName and a directoryName`;
+    }
+    if (!isDeltaStrategy(strategy)) {
+      throw `Error metadata type "${xmlName}" has an invalid strategy "${strategy}"`;
+    }
+    registry[directoryName] = {
+      ...registeredType,
+      xmlName,
+      directoryName,
+      strategy,
+    };
+  }
+  return registry;
+};
+
+/**
+ * default registry
+ */
+const metadataRegistry: MetadataRegistry = buildMetadataRegistry(metadataTypes);
+
+/**
+ * load the registry of a project
+ * the metadata types of the project registry file extend the default registry
+ * @param projectPath
+ */
+const loadMetadataRegistry = async (
+  projectPath: string
+): Promise<MetadataRegistry> => {
+  const registryPath: string = path.join(projectPath, REGISTRY_FILE_NAME);
+  if (!fs.existsSync(registryPath)) {
+    return metadataRegistry;
+  }
+  const registryJSON = JSON.parse(await readFile(registryPath));
+  return buildMetadataRegistry(
+    registryJSON.metadataTypes || [],
+    metadataRegistry
+  );
+};
+
+/**
+ * resolve the metadata type of a file from its path parts
+ * the path parts start with the metadata type folder
+ * decomposed child types are resolved from the file suffix
+ * @param parts
+ * @param registry
+ */
+const resolveMetadataType = (
+  parts: string[],
+  registry: MetadataRegistry = metadataRegistry
+): MetadataType | undefined => {
+  const metadataType: MetadataType = registry[parts[0]];
+  if (!metadataType || !metadataType.children || parts.length < 3) {
+    return metadataType;
+  }
+  const fileName: string = parts[parts.length - 1];
+  if (
+    parts.length === 3 &&
+    fileName.startsWith(`${parts[1]}.${metadataType.suffix}`)
+  ) {
+    return metadataType;
+  }
+  const childFileName: string = fileName.replace(/-meta\.xml$/, "");
+  const childSuffix: string = childFileName.substring(
+    childFileName.lastIndexOf(".") + 1
+  );
+  return metadataType.children.find(
+    (childType) => childType.suffix === childSuffix
+  );
+};
+
+export {
+  MetadataRegistry,
+  MetadataTypeOverride,
+  metadataRegistry,
+  buildMetadataRegistry,
+  loadMetadataRegistry,
+  resolveMetadataType,
+};
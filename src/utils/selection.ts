@@ -0,0 +1,136 @@
+import { GitCommit, GitDiffEntry, gitLog, gitLsTree } from "./git";
+
+/**
+ * criteria of the commits selected in a range
+ * a commit is selected if its message matches the pattern or any ticket key
+ * grep: a regular expression matched against the commit message
+ * tickets: the work item keys mentioned in the commit message
+ */
+type CommitSelection = {
+  grep?: string;
+  tickets?: string[];
+};
+
+/**
+ * changes of the selected commits of a range
+ * selectedCommits: the sha of the selected commits, from the newest
+ * diffEntries: the files changed by the selected commits
+ * revisions: the latest selected commit changing each file
+ * excludedChanges: the excluded commits also changing a selected file
+ */
+type SelectedChanges = {
+  selectedCommits: string[];
+  diffEntries: GitDiffEntry[];
+  revisions: { [filePath: string]: string };
+  excludedChanges: { path: string; commits: string[] }[];
+};
+
+/**
+ * escape the special characters of a regular expression
+ * @param text
+ */
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * build the matcher of the commit messages of a selection
+ * the ticket keys are matched as whole words, ABC-1 doesn't match ABC-12
+ * @param selection
+ */
+const commitMessageMatcher = (
+  selection: CommitSelection
+): ((message: string) => boolean) => {
+  const patterns: RegExp[] = [];
+  if (selection.grep) {
+    try {
+      patterns.push(new RegExp(selection.grep, "m"));
+    } catch (e) {
+      throw `Error invalid commit message pattern "${selection.grep}"`;
+    }
+  }
+  for (const ticket of selection.tickets || []) {
+    patterns.push(new RegExp(`(^|[^\\w-])${escapeRegExp(ticket)}(?![\\w-])`));
+  }
+  return (message: string) => patterns.some((pattern) => pattern.test(message));
+};
+
+/**
+ * collect the changes of the selected commits of a range
+ * the status of a file compares the from revision with its latest selected
+ * commit, so a file added then modified by the selection is added
+ * @param from
+ * @param to
+ * @param selection
+ * @param cwd
+ */
+const selectChanges = async (
+  from: string,
+  to: string,
+  selection: CommitSelection,
+  cwd: string = process.cwd()
+): Promise<SelectedChanges> => {
+  const isSelected = commitMessageMatcher(selection);
+  const commits: GitCommit[] = await gitLog(from, to || "HEAD", cwd);
+  const selectedCommits: GitCommit[] = commits.filter((commit) =>
+    isSelected(commit.message)
+  );
+
+  /** the commits are ordered from the newest */
+  const revisions: { [filePath: string]: string } = {};
+  for (const commit of selectedCommits) {
+    for (const diffEntry of commit.diffEntries) {
+      revisions[diffEntry.path] = revisions[diffEntry.path] || commit.sha;
+    }
+  }
+
+  const fileLists: { [revision: string]: Promise<Set<string>> } = {};
+  const listFiles = (revision: string): Promise<Set<string>> => {
+    if (!fileLists[revision]) {
+      fileLists[revision] = gitLsTree(revision, cwd).then(
+        (filePaths) => new Set(filePaths)
+      );
+    }
+    return fileLists[revision];
+  };
+  const diffEntries: GitDiffEntry[] = [];
+  for (const filePath of Object.keys(revisions).sort()) {
+    const existsBefore: boolean = (await listFiles(from)).has(filePath);
+    const existsAfter: boolean = (await listFiles(revisions[filePath])).has(
+      filePath
+    );
+    if (existsBefore || existsAfter) {
+      diffEntries.push({
+        status: !existsBefore ? "A" : !existsAfter ? "D" : "M",
+        path: filePath,
+      });
+    }
+  }
+
+  const excludedChanges: { path: string; commits: string[] }[] = [];
+  for (const filePath of Object.keys(revisions).sort()) {
+    const excludedCommits: string[] = commits
+      .filter(
+        (commit) =>
+          !selectedCommits.includes(commit) &&
+          commit.diffEntries.some((diffEntry) => diffEntry.path === filePath)
+      )
+      .map((commit) => commit.sha);
+    if (excludedCommits.length > 0) {
+      excludedChanges.push({ path: filePath, commits: excludedCommits });
+    }
+  }
+
+  return {
+    selectedCommits: selectedCommits.map((commit) => commit.sha),
+    diffEntries,
+    revisions,
+    excludedChanges,
+  };
+};
+
+export {
+  CommitSelection,
+  SelectedChanges,
+  commitMessageMatcher,
+  selectChanges,
+};
@@ -0,0 +1,123 @@
+import * as fs from "fs";
+import * as path from "path";
+
+import { listFilesRecursive, writeFile } from "./utilities";
+import { GitObjectReader, gitLsTree, gitShowObjectReader } from "./git";
+
+/**
+ * reader of the project source files
+ * the paths are relative to the project folder
+ * readFile: read the content of a file
+ * exists: check if a file or a directory exists
+ * listDirectory: list the file & directory names of a directory
+ * listFiles: list the files of a directory recursively
+ */
+type SourceReader = {
+  readFile: (filePath: string) => Promise<Buffer>;
+  exists: (filePath: string) => Promise<boolean>;
+  listDirectory: (dirPath: string) => Promise<string[]>;
+  listFiles: (dirPath: string) => Promise<string[]>;
+};
+
+/**
+ * create a reader of the working tree
+ * @param projectPath
+ */
+const workingTreeReader = (projectPath: string): SourceReader => ({
+  readFile: async (filePath: string): Promise<Buffer> => {
+    if (!fs.existsSync(path.join(projectPath, filePath))) {
+      throw `Error file "${filePath}" not found`;
+    }
+    return fs.readFileSync(path.join(projectPath, filePath));
+  },
+  exists: async (filePath: string): Promise<boolean> =>
+    fs.existsSync(path.join(projectPath, filePath)),
+  listDirectory: async (dirPath: string): Promise<string[]> =>
+    fs.readdirSync(path.join(projectPath, dirPath)),
+  listFiles: async (dirPath: string): Promise<string[]> =>
+    listFilesRecursive(path.join(projectPath, dirPath)),
+});
+
+/**
+ * create a reader of the git objects of a revision
+ * the file list of the revision is loaded & indexed once
+ * @param revision
+ * @param projectPath
+ * @param objectReader
+ */
+const gitRevisionReader = (
+  revision: string,
+  projectPath: string,
+  objectReader: GitObjectReader = gitShowObjectReader(projectPath)
+): SourceReader => {
+  let fileIndex: Promise<{
+    filePaths: string[];
+    files: Set<string>;
+    dirs: Set<string>;
+  }>;
+  const indexFiles = () => {
+    if (!fileIndex) {
+      fileIndex = gitLsTree(revision, projectPath).then((filePaths) => {
+        const dirs = new Set<string>();
+        for (const filePath of filePaths) {
+          let slashIndex: number = filePath.indexOf("/");
+          while (slashIndex !== -1) {
+            dirs.add(filePath.substring(0, slashIndex));
+            slashIndex = filePath.indexOf("/", slashIndex + 1);
+          }
+        }
+        return { filePaths, files: new Set(filePaths), dirs };
+      });
+    }
+    return fileIndex;
+  };
+  const listFiles = async (dirPath: string): Promise<string[]> => {
+    const { filePaths, dirs } = await indexFiles();
+    if (dirPath === ".") {
+      return filePaths;
+    }
+    if (!dirs.has(dirPath)) {
+      return [];
+    }
+    return filePaths
+      .filter((filePath) => filePath.startsWith(`${dirPath}/`))
+      .map((filePath) => filePath.substring(dirPath.length + 1));
+  };
+  return {
+    readFile: async (filePath: string): Promise<Buffer> => {
+      if (!(await indexFiles()).files.has(filePath)) {
+        throw `Error file "${filePath}" not found in "${revision}"`;
+      }
+      return objectReader.readFile(revision, filePath);
+    },
+    exists: async (filePath: string): Promise<boolean> => {
+      if (filePath === ".") {
+        return true;
+      }
+      const { files, dirs } = await indexFiles();
+      return files.has(filePath) || dirs.has(filePath);
+    },
+    listDirectory: async (dirPath: string): Promise<string[]> => [
+      ...new Set(
+        (await listFiles(dirPath)).map((filePath) => filePath.split("/")[0])
+      ),
+    ],
+    listFiles,
+  };
+};
+
+/**
+ * Copy a source file
+ * @param reader
+ * @param sourcepath
+ * @param destpath
+ */
+const copySourceFile = async (
+  reader: SourceReader,
+  sourcepath: string,
+  destpath: string
+): Promise<void> => {
+  await writeFile(destpath, await reader.readFile(sourcepath));
+};
+
+export { SourceReader, workingTreeReader, gitRevisionReader, copySourceFile };
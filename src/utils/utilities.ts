@@ -1,4 +1,5 @@
 import * as fs from "fs";
+import * as nodePath from "path";
 
 /**
  * compare profile access file names
@@ -150,7 +151,10 @@ const readFile = async (path: string): Promise<string> => {
  * Write a file
  * @param path
  */
-const writeFile = async (path: string, content: string): Promise<void> => {
+const writeFile = async (
+  path: string,
+  content: string | Buffer
+): Promise<void> => {
   await fs.writeFileSync(path, content, {
     encoding: "utf8",
   });
@@ -187,6 +191,133 @@ const copyFile = async (
   }
 };
 
+/**
+ * List the files of a directory recursively
+ * the file paths are relative to the directory
+ * @param path
+ */
+const listFilesRecursive = async (path: string): Promise<string[]> => {
+  const filePaths: string[] = [];
+  for (const dirent of fs.readdirSync(path, { withFileTypes: true })) {
+    if (dirent.isDirectory()) {
+      for (const filePath of await listFilesRecursive(
+        `${path}/${dirent.name}`
+      )) {
+        filePaths.push(`${dirent.name}/${filePath}`);
+      }
+    } else {
+      filePaths.push(dirent.name);
+    }
+  }
+  return filePaths;
+};
+
+/**
+ * Remove a directory and its content
+ * @param path
+ */
+const rmdirRecursive = async (path: string): Promise<void> => {
+  for (const dirent of fs.readdirSync(path, { withFileTypes: true })) {
+    if (dirent.isDirectory()) {
+      await rmdirRecursive(`${path}/${dirent.name}`);
+    } else {
+      fs.unlinkSync(`${path}/${dirent.name}`);
+    }
+  }
+  fs.rmdirSync(path);
+};
+
+/**
+ * Convert the path segments of a glob pattern to a regular expression
+ * * and ? match within a segment, ** matches any number of segments
+ * @param parts
+ */
+const globToRegExp = (parts: string[]): RegExp =>
+  new RegExp(
+    `^${parts
+      .map((part, index) => {
+        if (part === "**") {
+          return index === parts.length - 1 ? ".*" : "(?:[^/]+/)*";
+        }
+        const segment: string = part
+          .replace(/[.+^${}()|\\]/g, "\\$&")
+          .replace(/\*/g, "[^/]*")
+          .replace(/\?/g, "[^/]");
+        return index === parts.length - 1 ? segment : `${segment}/`;
+      })
+      .join("")}$`
+  );
+
+/**
+ * List the files matching a file path, a directory or a glob pattern
+ * the files of a directory or a glob pattern are filtered by their suffix
+ * @param pattern
+ * @param suffixes
+ */
+const listMatchingFiles = async (
+  pattern: string,
+  suffixes: string[] = []
+): Promise<string[]> => {
+  if (fs.existsSync(pattern)) {
+    if (!fs.statSync(pattern).isDirectory()) {
+      return [pattern];
+    }
+    return (await listFilesRecursive(pattern))
+      .filter(
+        (filePath) =>
+          suffixes.length === 0 ||
+          suffixes.some((suffix) => filePath.endsWith(suffix))
+      )
+      .sort()
+      .map((filePath) => nodePath.posix.join(pattern, filePath));
+  }
+  const parts: string[] = pattern.replace(/\\/g, "/").split("/");
+  const globIndex: number = parts.findIndex((part) => /[*?[]/.test(part));
+  if (globIndex < 0) {
+    throw `Error file "${pattern}" not found`;
+  }
+  const baseDir: string = parts.slice(0, globIndex).join("/") || ".";
+  if (!fs.existsSync(baseDir)) {
+    return [];
+  }
+  const globRegExp: RegExp = globToRegExp(parts.slice(globIndex));
+  return (await listFilesRecursive(baseDir))
+    .filter(
+      (filePath) =>
+        globRegExp.test(filePath) &&
+        (suffixes.length === 0 ||
+          suffixes.some((suffix) => filePath.endsWith(suffix)))
+    )
+    .sort()
+    .map((filePath) => nodePath.posix.join(baseDir, filePath));
+};
+
+/**
+ * Run an async function on a list of items with a bounded concurrency
+ * the results keep the order of the items
+ * @param items
+ * @param concurrency
+ * @param fn
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker)
+  );
+  return results;
+};
+
 export {
   substringBefore,
   substringBeforeLast,
@@ -199,4 +330,8 @@ export {
   writeFile,
   writeXMLFile,
   copyFile,
+  listFilesRecursive,
+  listMatchingFiles,
+  rmdirRecursive,
+  mapWithConcurrency,
 };
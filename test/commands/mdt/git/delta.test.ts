@@ -1,12 +1,94 @@
-// import * as fs from "fs";
-import * as x2jParser from "fast-xml-parser";
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 import { j2xParser } from "fast-xml-parser";
+import Differ from "../../../../src/commands/mdt/git/delta";
 import {
   metadataToJSArray,
-  diffChangesInMetadata,
+  diffMetadataEntries,
+  revokeMetadataItems,
+  isReferencedWorkflowAction,
+  copyDiffOfComplexMetadata,
+  TypeFilter,
 } from "../../../../src/utils/delta";
+import { recordDeployedCommit } from "../../../../src/utils/deployments";
+import { rmdirRecursive } from "../../../../src/utils/utilities";
 import { j2xOptions } from "../../../../src/config/fastXMLOptions";
 
+const labelsPath = "force-app/main/default/labels/CustomLabels.labels-meta.xml";
+
+/**
+ * commit a state of the files of a test project, null deletes a file
+ * @param projectPath
+ * @param files
+ */
+const commitFiles = (
+  projectPath: string,
+  files: { [filePath: string]: string | null }
+): string => {
+  for (const filePath of Object.keys(files)) {
+    const absolutePath = path.join(projectPath, filePath);
+    if (files[filePath] === null) {
+      fs.unlinkSync(absolutePath);
+    } else {
+      fs.mkdirSync(path.dirname(absolutePath), { recursive: true });
+      fs.writeFileSync(absolutePath, files[filePath]);
+    }
+  }
+  const git = (...args: string[]) =>
+    execFileSync(
+      "git",
+      ["-c", "user.name=test", "-c", "user.email=test@test.com", ...args],
+      { cwd: projectPath }
+    )
+      .toString()
+      .trim();
+  git("add", "-A");
+  git("commit", "--no-gpg-sign", "-q", "-m", "commit");
+  return git("rev-parse", "HEAD");
+};
+
+/**
+ * create a test project repository committing its from & to states
+ * @param fromFiles
+ * @param toFiles the changes of the to state
+ */
+const createProject = (
+  fromFiles: { [filePath: string]: string },
+  toFiles: { [filePath: string]: string | null }
+): { projectPath: string; from: string; to: string } => {
+  const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+  execFileSync("git", ["init", "-q"], { cwd: projectPath });
+  const from = commitFiles(projectPath, {
+    "sfdx-project.json": JSON.stringify({
+      packageDirectories: [{ path: "force-app", default: true }],
+      sourceApiVersion: "52.0",
+    }),
+    ...fromFiles,
+  });
+  const to = commitFiles(projectPath, toFiles);
+  return { projectPath, from, to };
+};
+
+/**
+ * run a delta of a test project from its folder
+ * @param projectPath
+ * @param run
+ */
+const runInProject = async <T>(
+  projectPath: string,
+  run: () => Promise<T>
+): Promise<T> => {
+  const cwd = process.cwd();
+  process.chdir(projectPath);
+  try {
+    return await run();
+  } finally {
+    process.chdir(cwd);
+  }
+};
+
 describe("mdt:git:delta", () => {
   it("metadataToJSArray", async () => {
     const result = metadataToJSArray(
@@ -30,9 +112,9 @@ describe("mdt:git:delta", () => {
     expect(JSON.parse(result[0]).tagName).toEqual("labels");
     expect(JSON.parse(result[0]).fullName).toEqual("label1");
   });
-  it("diffMetadata", async () => {
+  it("diffMetadataEntries of labels", async () => {
     const json2xmlParser = new j2xParser(j2xOptions);
-    const result = diffChangesInMetadata(
+    const result = diffMetadataEntries(
       json2xmlParser.parse({
         CustomLabels: {
           labels: [
@@ -69,10 +151,563 @@ describe("mdt:git:delta", () => {
           ],
         },
       }),
-      "CustomLabels",
-      [],
-      (array, item) => !array.includes(item)
+      "CustomLabels"
+    );
+    const fullNames = (identities: string[], items) =>
+      identities.map((identity) => items.get(identity).fullName);
+    expect(fullNames(result.added, result.toItems)).toEqual(["label2222"]);
+    expect(fullNames(result.modified, result.toItems)).toEqual(["label1"]);
+    expect(fullNames(result.removed, result.fromItems)).toEqual(["label2"]);
+  });
+  it("diffMetadataEntries", async () => {
+    const json2xmlParser = new j2xParser(j2xOptions);
+    const result = diffMetadataEntries(
+      json2xmlParser.parse({
+        Profile: {
+          custom: false,
+          fieldPermissions: [
+            { editable: false, field: "Account.Field1__c", readable: true },
+            { editable: false, field: "Account.Field2__c", readable: true },
+          ],
+          layoutAssignments: [
+            { layout: "Account-Layout" },
+            { layout: "Account-Layout", recordType: "Account.RT1" },
+          ],
+        },
+      }),
+      json2xmlParser.parse({
+        Profile: {
+          custom: true,
+          fieldPermissions: [
+            { editable: true, field: "Account.Field1__c", readable: true },
+            { editable: false, field: "Account.Field3__c", readable: true },
+          ],
+          layoutAssignments: [{ layout: "Account-Layout" }],
+        },
+      }),
+      "Profile",
+      {
+        fieldPermissions: ["field"],
+        layoutAssignments: ["layout", "recordType"],
+      }
+    );
+    const tags = (identities: string[], items) =>
+      identities.map((identity) => items.get(identity).tagName);
+    expect(tags(result.added, result.toItems)).toEqual(["fieldPermissions"]);
+    expect(tags(result.modified, result.toItems)).toEqual([
+      "custom",
+      "fieldPermissions",
+    ]);
+    expect(tags(result.removed, result.fromItems)).toEqual([
+      "fieldPermissions",
+      "layoutAssignments",
+    ]);
+  });
+  it("diffMetadataEntries of the same fullName in different tags", async () => {
+    const json2xmlParser = new j2xParser(j2xOptions);
+    const result = diffMetadataEntries(
+      json2xmlParser.parse({
+        SharingRules: {
+          sharingCriteriaRules: [{ fullName: "Rule1", label: "Rule 1" }],
+        },
+      }),
+      json2xmlParser.parse({
+        SharingRules: {
+          sharingCriteriaRules: [{ fullName: "Rule1", label: "Rule 1" }],
+          sharingOwnerRules: [{ fullName: "Rule1", label: "Rule 1" }],
+        },
+      }),
+      "SharingRules"
+    );
+    expect(result.added.length).toEqual(1);
+    expect(result.toItems.get(result.added[0]).tagName).toEqual(
+      "sharingOwnerRules"
+    );
+    expect(result.modified.length + result.removed.length).toEqual(0);
+  });
+  it("revokeMetadataItems", async () => {
+    const json2xmlParser = new j2xParser(j2xOptions);
+    const result = revokeMetadataItems(
+      diffMetadataEntries(
+        json2xmlParser.parse({
+          Profile: {
+            classAccesses: [{ apexClass: "MyClass", enabled: true }],
+            fieldPermissions: [
+              { editable: true, field: "Account.Field1__c", readable: true },
+            ],
+            layoutAssignments: [{ layout: "Account-Layout" }],
+          },
+        }),
+        json2xmlParser.parse({ Profile: {} }),
+        "Profile",
+        {
+          classAccesses: ["apexClass"],
+          fieldPermissions: ["field"],
+          layoutAssignments: ["layout", "recordType"],
+        }
+      ),
+      {
+        classAccesses: { enabled: false },
+        fieldPermissions: { editable: false, readable: false },
+      }
+    );
+    expect([...result.values()]).toEqual([
+      {
+        tagName: "classAccesses",
+        tagType: "object",
+        apexClass: "MyClass",
+        enabled: false,
+      },
+      {
+        tagName: "fieldPermissions",
+        tagType: "object",
+        editable: false,
+        field: "Account.Field1__c",
+        readable: false,
+      },
+    ]);
+  });
+  it("copyDiffOfComplexMetadata keeps the tag order", async () => {
+    const json2xmlParser = new j2xParser(j2xOptions);
+    const profilePath = "profiles/P.profile-meta.xml";
+    const contents = {
+      from: json2xmlParser.parse({
+        Profile: {
+          classAccesses: [{ apexClass: "MyClass", enabled: true }],
+          custom: false,
+          fieldPermissions: [
+            { editable: true, field: "Account.Field1__c", readable: true },
+          ],
+        },
+      }),
+      to: json2xmlParser.parse({
+        Profile: {
+          custom: true,
+          fieldPermissions: [
+            { editable: false, field: "Account.Field1__c", readable: true },
+          ],
+        },
+      }),
+    };
+    const packageDir = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    try {
+      fs.mkdirSync(path.join(packageDir, "profiles"));
+      await copyDiffOfComplexMetadata(
+        "from",
+        "to",
+        profilePath,
+        {
+          rootTagName: "Profile",
+          requiredTagNames: [],
+          identityKeys: {
+            classAccesses: ["apexClass"],
+            fieldPermissions: ["field"],
+          },
+          revocations: { classAccesses: { enabled: false } },
+        },
+        {
+          packageDir,
+          projectPath: packageDir,
+          objectReader: {
+            readFile: async (revision: string) =>
+              Buffer.from(contents[revision]),
+            close: () => undefined,
+          },
+        }
+      );
+      const profileXML = fs.readFileSync(
+        path.join(packageDir, profilePath),
+        "utf8"
+      );
+      const tagNames = profileXML.match(
+        /<(classAccesses|custom|fieldPermissions)>/g
+      );
+      expect(tagNames).toEqual([
+        "<classAccesses>",
+        "<custom>",
+        "<fieldPermissions>",
+      ]);
+    } finally {
+      await rmdirRecursive(packageDir);
+    }
+  });
+  it("isReferencedWorkflowAction", async () => {
+    const rules = [
+      {
+        tagName: "rules",
+        tagType: "array",
+        fullName: "MyRule",
+        actions: { name: "MyUpdate", type: "FieldUpdate" },
+        workflowTimeTriggers: [
+          { actions: [{ name: "MyAlert", type: "Alert" }] },
+        ],
+      },
+    ];
+    expect(
+      isReferencedWorkflowAction(
+        { tagName: "fieldUpdates", tagType: "array", fullName: "MyUpdate" },
+        rules
+      )
+    ).toBe(true);
+    expect(
+      isReferencedWorkflowAction(
+        { tagName: "alerts", tagType: "array", fullName: "MyAlert" },
+        rules
+      )
+    ).toBe(true);
+    expect(
+      isReferencedWorkflowAction(
+        { tagName: "alerts", tagType: "array", fullName: "MyUpdate" },
+        rules
+      )
+    ).toBe(false);
+  });
+  it("resolveBaseCommit", async () => {
+    const classPath = "force-app/main/default/classes/A.cls";
+    const { projectPath, from, to } = createProject(
+      { [classPath]: "public class A {}" },
+      { [classPath]: "public class A { Integer i; }" }
+    );
+    try {
+      execFileSync("git", ["checkout", "-q", "-b", "feature", from], {
+        cwd: projectPath,
+      });
+      commitFiles(projectPath, { [classPath]: "public class A { String s; }" });
+      const differ = new Differ([], null);
+      const resolveBaseCommit = (
+        ...args: Parameters<Differ["resolveBaseCommit"]>
+      ) => runInProject(projectPath, () => differ.resolveBaseCommit(...args));
+      expect(await resolveBaseCommit("feature", to)).toEqual("feature");
+      expect(await resolveBaseCommit("feature", to, true)).toEqual(from);
+      await recordDeployedCommit(projectPath, "uat", from);
+      await recordDeployedCommit(projectPath, "prod", to, "tag");
+      expect(await resolveBaseCommit(undefined, to, false, "uat")).toEqual(
+        from
+      );
+      expect(
+        await resolveBaseCommit(undefined, to, false, "prod", "tag")
+      ).toEqual(to);
+      await expect(
+        resolveBaseCommit(undefined, to, true, "uat")
+      ).rejects.toEqual(
+        "Error --mergebase and --lastdeployed can't be used together"
+      );
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta reads the git objects of the to revision", async () => {
+    const classPath = "force-app/main/default/classes/A.cls";
+    const classMetaPath = `${classPath}-meta.xml`;
+    const { projectPath, from, to } = createProject(
+      {
+        [classPath]: "public class A {}",
+        [classMetaPath]: "<ApexClass/>",
+      },
+      { [classPath]: "public class A { Integer i; }" }
+    );
+    try {
+      fs.writeFileSync(
+        path.join(projectPath, classPath),
+        "public class A { uncommitted }"
+      );
+      const packageDir = path.join(projectPath, "package");
+      const result = await runInProject(projectPath, () =>
+        new Differ([], null).delta(from, to, packageDir, undefined, {
+          gitobjects: true,
+        })
+      );
+      expect(result.package).toEqual({ ApexClass: ["A"] });
+      expect(fs.readFileSync(path.join(packageDir, classPath), "utf8")).toEqual(
+        "public class A { Integer i; }"
+      );
+      expect(
+        fs.readFileSync(path.join(packageDir, classMetaPath), "utf8")
+      ).toEqual("<ApexClass/>");
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta redeploys a bundle when one of its files is deleted", async () => {
+    const bundlePath = "force-app/main/default/lwc/cmp";
+    const { projectPath, from, to } = createProject(
+      {
+        [`${bundlePath}/cmp.js`]: "export default class Cmp {}",
+        [`${bundlePath}/cmp.css`]: ".cmp {}",
+        [`${bundlePath}/cmp.js-meta.xml`]: "<LightningComponentBundle/>",
+      },
+      { [`${bundlePath}/cmp.css`]: null }
+    );
+    try {
+      const packageDir = path.join(projectPath, "package");
+      const destructiveDir = path.join(projectPath, "destructive");
+      const result = await runInProject(projectPath, () =>
+        new Differ([], null).delta(from, to, packageDir, destructiveDir)
+      );
+      expect(result.package).toEqual({ LightningComponentBundle: ["cmp"] });
+      expect(result.destructiveChanges).toEqual({});
+      expect(fs.readdirSync(path.join(packageDir, bundlePath)).sort()).toEqual([
+        "cmp.js",
+        "cmp.js-meta.xml",
+      ]);
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta deploys the foldered components with their folders", async () => {
+    const reportsPath = "force-app/main/default/reports";
+    const reportPath = `${reportsPath}/Sales/Pipeline.report-meta.xml`;
+    const templatesPath = "force-app/main/default/email";
+    const templatePath = `${templatesPath}/Notices/Welcome.email`;
+    const { projectPath, from, to } = createProject(
+      {
+        [`${reportsPath}/Sales.reportFolder-meta.xml`]: "<ReportFolder/>",
+        [reportPath]: "<Report><name>Pipeline</name></Report>",
+        [`${templatesPath}/Notices.emailFolder-meta.xml`]: "<EmailFolder/>",
+        [templatePath]: "Welcome",
+        [`${templatePath}-meta.xml`]: "<EmailTemplate/>",
+      },
+      {
+        [reportPath]: "<Report><name>Pipeline 2</name></Report>",
+        [templatePath]: "Welcome!",
+      }
+    );
+    try {
+      const packageDir = path.join(projectPath, "package");
+      const result = await runInProject(projectPath, () =>
+        new Differ([], null).delta(from, to, packageDir, undefined)
+      );
+      expect(result.package).toEqual({
+        Report: ["Sales", "Sales/Pipeline"],
+        EmailTemplate: ["Notices", "Notices/Welcome"],
+      });
+      expect(
+        fs.readFileSync(
+          path.join(packageDir, reportsPath, "Sales.reportFolder-meta.xml"),
+          "utf8"
+        )
+      ).toEqual("<ReportFolder/>");
+      expect(
+        fs.readFileSync(
+          path.join(packageDir, templatesPath, "Notices.emailFolder-meta.xml"),
+          "utf8"
+        )
+      ).toEqual("<EmailFolder/>");
+      expect(
+        fs.readFileSync(
+          path.join(packageDir, `${templatePath}-meta.xml`),
+          "utf8"
+        )
+      ).toEqual("<EmailTemplate/>");
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta adds the record types of a changed picklist", async () => {
+    const json2xmlParser = new j2xParser(j2xOptions);
+    const objectPath = "force-app/main/default/objects/Account";
+    const fieldPath = `${objectPath}/fields/Pick__c.field-meta.xml`;
+    const picklistField = (values: string[]) =>
+      json2xmlParser.parse({
+        CustomField: {
+          fullName: "Pick__c",
+          type: "Picklist",
+          valueSet: {
+            valueSetDefinition: {
+              value: values.map((value) => ({ fullName: value, label: value })),
+            },
+          },
+        },
+      });
+    const recordType = (fullName: string, picklists: string[]) =>
+      json2xmlParser.parse({
+        RecordType: {
+          fullName,
+          picklistValues: picklists.map((picklist) => ({
+            picklist,
+            values: { fullName: "A", default: false },
+          })),
+        },
+      });
+    const { projectPath, from, to } = createProject(
+      {
+        [fieldPath]: picklistField(["A"]),
+        [`${objectPath}/recordTypes/RT.recordType-meta.xml`]: recordType("RT", [
+          "Pick__c",
+        ]),
+        [`${objectPath}/recordTypes/RT2.recordType-meta.xml`]: recordType(
+          "RT2",
+          []
+        ),
+      },
+      { [fieldPath]: picklistField(["A", "B"]) }
+    );
+    try {
+      const packageDir = path.join(projectPath, "package");
+      const result = await runInProject(projectPath, () =>
+        new Differ([], null).delta(from, to, packageDir, undefined)
+      );
+      expect(result.package).toEqual({
+        CustomField: ["Account.Pick__c"],
+        RecordType: ["Account.RT"],
+      });
+      expect(
+        result.entries.find((deltaEntry) => deltaEntry.status === "required")
+      ).toMatchObject({
+        path: `${objectPath}/recordTypes/RT.recordType-meta.xml`,
+        requiredBy: fieldPath,
+      });
+      expect(
+        fs.readdirSync(path.join(packageDir, objectPath, "recordTypes"))
+      ).toEqual(["RT.recordType-meta.xml"]);
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta filters the included & excluded types", async () => {
+    const classesPath = "force-app/main/default/classes";
+    const triggerPath = "force-app/main/default/triggers/T.trigger";
+    const { projectPath, from, to } = createProject(
+      {
+        [`${classesPath}/A.cls`]: "public class A {}",
+        [`${classesPath}/A.cls-meta.xml`]: "<ApexClass/>",
+        [`${classesPath}/B.cls`]: "public class B {}",
+        [`${classesPath}/B.cls-meta.xml`]: "<ApexClass/>",
+        [triggerPath]: "trigger T on Account (before insert) {}",
+        [`${triggerPath}-meta.xml`]: "<ApexTrigger/>",
+      },
+      {
+        [`${classesPath}/A.cls`]: "public class A { Integer i; }",
+        [`${classesPath}/B.cls`]: null,
+        [`${classesPath}/B.cls-meta.xml`]: null,
+        [triggerPath]: "trigger T on Account (after insert) {}",
+      }
+    );
+    try {
+      const delta = (typeFilter: TypeFilter) =>
+        runInProject(projectPath, () =>
+          new Differ([], null).delta(
+            from,
+            to,
+            path.join(projectPath, "package"),
+            path.join(projectPath, "destructive"),
+            { dryrun: true, typeFilter }
+          )
+        );
+      const included = await delta({ include: ["ApexTrigger"] });
+      expect(included.package).toEqual({ ApexTrigger: ["T"] });
+      expect(included.destructiveChanges).toEqual({});
+      expect(included.excludedTypes).toEqual({ ApexClass: ["B", "A"] });
+      const excluded = await delta({ exclude: ["ApexTrigger"] });
+      expect(excluded.package).toEqual({ ApexClass: ["A"] });
+      expect(excluded.destructiveChanges).toEqual({ ApexClass: ["B"] });
+      expect(excluded.excludedTypes).toEqual({ ApexTrigger: ["T"] });
+      const unfiltered = await delta({});
+      expect(unfiltered.excludedTypes).toBeUndefined();
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta skips the files of unknown metadata types", async () => {
+    const classPath = "force-app/main/default/classes/A.cls";
+    const unknownsPath = "force-app/main/default/unknowns";
+    const { projectPath, from, to } = createProject(
+      {
+        [`${classPath}-meta.xml`]: "<ApexClass/>",
+        [`${unknownsPath}/V.unknown-meta.xml`]: "<Unknown/>",
+      },
+      {
+        [classPath]: "public class A {}",
+        [`${unknownsPath}/U.unknown-meta.xml`]: "<Unknown/>",
+        [`${unknownsPath}/V.unknown-meta.xml`]: null,
+      }
+    );
+    try {
+      const packageDir = path.join(projectPath, "package");
+      const destructiveDir = path.join(projectPath, "destructive");
+      const result = await runInProject(projectPath, () =>
+        new Differ([], null).delta(from, to, packageDir, destructiveDir)
+      );
+      expect(result.package).toEqual({ ApexClass: ["A"] });
+      expect(result.destructiveChanges).toEqual({});
+      expect(result.unresolvedPaths).toEqual([
+        `${unknownsPath}/V.unknown-meta.xml`,
+        `${unknownsPath}/U.unknown-meta.xml`,
+      ]);
+      expect(fs.existsSync(path.join(packageDir, unknownsPath))).toBe(false);
+      expect(fs.existsSync(path.join(destructiveDir, unknownsPath))).toBe(
+        false
+      );
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta doesn't include the unresolved members", async () => {
+    const classPath = "force-app/main/default/classes/A.cls";
+    const unknownPath = "force-app/main/default/unknowns/U.unknown-meta.xml";
+    const { projectPath, from, to } = createProject(
+      { [`${classPath}-meta.xml`]: "<ApexClass/>" },
+      {
+        [classPath]: "public class A {}",
+        [unknownPath]: "<Unknown/>",
+      }
+    );
+    try {
+      const packageDir = path.join(projectPath, "package");
+      const result = await runInProject(projectPath, () =>
+        new Differ([], null).delta(from, to, packageDir, undefined, {
+          typeFilter: { include: ["ApexClass"] },
+        })
+      );
+      expect(result.package).toEqual({ ApexClass: ["A"] });
+      expect(result.excludedTypes).toEqual({});
+      expect(
+        result.entries.find((deltaEntry) => deltaEntry.path === unknownPath)
+      ).toMatchObject({ ignoredBy: "--include-types", action: "skip" });
+      expect(fs.existsSync(path.join(packageDir, unknownPath))).toBe(false);
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+  it("delta dry run lists the entries of a real run", async () => {
+    const json2xmlParser = new j2xParser(j2xOptions);
+    const labels = (values: { [fullName: string]: string }) =>
+      json2xmlParser.parse({
+        CustomLabels: {
+          labels: Object.keys(values).map((fullName) => ({
+            fullName,
+            value: values[fullName],
+          })),
+        },
+      });
+    const { projectPath, from, to } = createProject(
+      { [labelsPath]: labels({ L1: "value1", L2: "value2" }) },
+      { [labelsPath]: labels({ L1: "value11" }) }
     );
-    expect(x2jParser.parse(result).CustomLabels.labels.length).toEqual(2);
+    try {
+      const delta = (outputDir: string, dryrun: boolean) =>
+        runInProject(projectPath, () =>
+          new Differ([], null).delta(
+            from,
+            to,
+            path.join(projectPath, outputDir, "package"),
+            path.join(projectPath, outputDir, "destructive"),
+            { dryrun }
+          )
+        );
+      const realRun = await delta("real", false);
+      const dryRun = await delta("dry", true);
+      expect(realRun.package).toEqual({ CustomLabel: ["L1"] });
+      expect(realRun.destructiveChanges).toEqual({ CustomLabel: ["L2"] });
+      expect(dryRun.entries).toEqual(realRun.entries);
+      expect(dryRun.package).toEqual(realRun.package);
+      expect(dryRun.destructiveChanges).toEqual(realRun.destructiveChanges);
+      expect(fs.existsSync(path.join(projectPath, "real", "package"))).toBe(
+        true
+      );
+      expect(fs.existsSync(path.join(projectPath, "dry"))).toBe(false);
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
   });
 });
@@ -0,0 +1,223 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  PERMISSION_SET_ACCESS_FILTERS,
+  PROFILE_ACCESS_FILTERS,
+  adaptPermissionFile,
+  countRemovedTagEntries,
+  countTagEntries,
+  filterUnavailableStandardTags,
+} from "../../src/utils/adapt";
+import { snapshotInventory, sourceInventory } from "../../src/utils/inventory";
+import { MetadataRegistry, metadataRegistry } from "../../src/utils/registry";
+import { rmdirRecursive } from "../../src/utils/utilities";
+
+describe("adapt tests", () => {
+  it("countRemovedTagEntries", async () => {
+    const profile = {
+      "@": { xmlns: "http://soap.sforce.com/2006/04/metadata" },
+      classAccesses: [{ apexClass: "A" }, { apexClass: "B" }],
+      objectPermissions: { object: "Account" },
+      userLicense: "Salesforce",
+    };
+    const entryCounts = countTagEntries(profile);
+    expect(entryCounts).toEqual({
+      classAccesses: 2,
+      objectPermissions: 1,
+      userLicense: 1,
+    });
+    profile.classAccesses = [{ apexClass: "A" }];
+    delete profile.objectPermissions;
+    expect(countRemovedTagEntries(entryCounts, profile)).toEqual({
+      classAccesses: 1,
+      objectPermissions: 1,
+    });
+  });
+
+  it("filterUnavailableStandardTags", async () => {
+    const inventory = {
+      listFullNames: async () => [],
+      listSObjects: async () => ["Account", "Opportunity", "C__c"],
+      listSObjectFields: async (sObjectName: string) =>
+        sObjectName === "Account" ? ["Id", "Name"] : ["Id"],
+      standardMembers: true,
+    };
+    const profile = {
+      fieldPermissions: [
+        { field: "Account.Name" },
+        { field: "Account.PersonEmail" },
+        { field: "Account.F__c" },
+        { field: "Quote.Name" },
+        { field: "C__c.Id" },
+      ],
+      objectPermissions: [
+        { object: "Account" },
+        { object: "Quote" },
+        { object: "C__c" },
+      ],
+      tabVisibilities: [
+        { tab: "standard-Account" },
+        { tab: "standard-Quote" },
+        { tab: "standard-home" },
+        { tab: "standard-Chatter" },
+        { tab: "standard-File" },
+        { tab: "standard-report" },
+        { tab: "T__c" },
+        { tab: "WebTab" },
+      ],
+    };
+    expect(await filterUnavailableStandardTags(inventory, profile)).toEqual({
+      objectPermissions: ["Quote"],
+      fieldPermissions: ["Account.PersonEmail", "Quote.Name"],
+      tabVisibilities: ["standard-Quote"],
+    });
+    expect(profile.fieldPermissions).toEqual([
+      { field: "Account.Name" },
+      { field: "Account.F__c" },
+      { field: "C__c.Id" },
+    ]);
+    expect(profile.objectPermissions).toEqual([
+      { object: "Account" },
+      { object: "C__c" },
+    ]);
+    expect(profile.tabVisibilities).toEqual([
+      { tab: "standard-Account" },
+      { tab: "standard-home" },
+      { tab: "standard-Chatter" },
+      { tab: "standard-File" },
+      { tab: "standard-report" },
+      { tab: "T__c" },
+      { tab: "WebTab" },
+    ]);
+    const permissionSet = {
+      objectPermissions: [{ object: "Quote" }],
+      tabSettings: [{ tab: "standard-quote" }, { tab: "standard-home" }],
+    };
+    expect(
+      await filterUnavailableStandardTags(inventory, permissionSet)
+    ).toEqual({
+      objectPermissions: ["Quote"],
+      tabSettings: ["standard-quote"],
+    });
+    expect(permissionSet.tabSettings).toEqual([{ tab: "standard-home" }]);
+  });
+
+  it("adaptPermissionFile", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const permissionSetPath = path.join(dir, "P.permissionset-meta.xml");
+    const inventory = snapshotInventory({
+      metadata: {
+        ApexClass: ["A"],
+        CustomField: [],
+        CustomObject: [],
+        CustomTab: ["T__c"],
+      },
+      userPermissions: ["ApiEnabled"],
+    });
+    try {
+      fs.writeFileSync(
+        permissionSetPath,
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<PermissionSet xmlns="http://soap.sforce.com/2006/04/metadata">',
+          "<classAccesses><apexClass>A</apexClass></classAccesses>",
+          "<classAccesses><apexClass>B</apexClass></classAccesses>",
+          "<fieldPermissions><field>Account.Name</field></fieldPermissions>",
+          "<fieldPermissions><field>Account.F__c</field></fieldPermissions>",
+          "<label>P</label>",
+          "<tabSettings><tab>T__c</tab></tabSettings>",
+          "<tabSettings><tab>U__c</tab></tabSettings>",
+          "<tabSettings><tab>standard-Account</tab></tabSettings>",
+          "<userPermissions><name>ApiEnabled</name></userPermissions>",
+          "<userPermissions><name>Gone</name></userPermissions>",
+          "</PermissionSet>",
+        ].join("\n")
+      );
+      expect(
+        await adaptPermissionFile(
+          permissionSetPath,
+          permissionSetPath,
+          ["PermissionSet", "MutingPermissionSet"],
+          inventory,
+          PERMISSION_SET_ACCESS_FILTERS
+        )
+      ).toEqual({
+        removedEntries: {
+          classAccesses: 1,
+          fieldPermissions: 1,
+          tabSettings: 1,
+          userPermissions: 1,
+        },
+        unavailableEntries: {},
+      });
+      const permissionSetXML = fs.readFileSync(permissionSetPath, "utf8");
+      expect(permissionSetXML).toContain("<tab>standard-Account</tab>");
+      expect(permissionSetXML).not.toContain("U__c");
+      await expect(
+        adaptPermissionFile(
+          permissionSetPath,
+          permissionSetPath,
+          ["Profile"],
+          inventory,
+          PERMISSION_SET_ACCESS_FILTERS
+        )
+      ).rejects.toEqual(`Error "${permissionSetPath}" isn't a Profile file`);
+    } finally {
+      await rmdirRecursive(dir);
+    }
+  });
+
+  it("adaptPermissionFile to the source inventory", async () => {
+    const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const profilePath = path.join(projectPath, "P.profile-meta.xml");
+    const sourceFiles = [
+      "force-app/main/default/datacategorygroups/G.datacategorygroup-meta.xml",
+      "force-app/main/default/dataSources/D.dataSource-meta.xml",
+    ];
+    /** the custom permissions can't be resolved without their type */
+    const registry: MetadataRegistry = { ...metadataRegistry };
+    delete registry["customPermissions"];
+    try {
+      for (const filePath of sourceFiles) {
+        const sourceFilePath = path.join(projectPath, filePath);
+        fs.mkdirSync(path.dirname(sourceFilePath), { recursive: true });
+        fs.writeFileSync(sourceFilePath, "");
+      }
+      fs.writeFileSync(
+        profilePath,
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<Profile xmlns="http://soap.sforce.com/2006/04/metadata">',
+          "<categoryGroupVisibilities><dataCategoryGroup>G</dataCategoryGroup></categoryGroupVisibilities>",
+          "<categoryGroupVisibilities><dataCategoryGroup>H</dataCategoryGroup></categoryGroupVisibilities>",
+          "<customPermissions><name>CP</name></customPermissions>",
+          "<externalDataSourceAccesses><externalDataSource>D</externalDataSource></externalDataSourceAccesses>",
+          "</Profile>",
+        ].join("\n")
+      );
+      expect(
+        await adaptPermissionFile(
+          profilePath,
+          profilePath,
+          ["Profile"],
+          await sourceInventory(projectPath, ["force-app"], registry),
+          PROFILE_ACCESS_FILTERS
+        )
+      ).toEqual({
+        removedEntries: { categoryGroupVisibilities: 1 },
+        unavailableEntries: {},
+      });
+      const profileXML = fs.readFileSync(profilePath, "utf8");
+      expect(profileXML).toContain("<dataCategoryGroup>G</dataCategoryGroup>");
+      expect(profileXML).not.toContain("<dataCategoryGroup>H");
+      expect(profileXML).toContain("<name>CP</name>");
+      expect(profileXML).toContain(
+        "<externalDataSource>D</externalDataSource>"
+      );
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+});
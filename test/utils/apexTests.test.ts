@@ -0,0 +1,39 @@
+import {
+  isTestClass,
+  referencesApexName,
+  findImpactedTestClasses,
+} from "../../src/utils/apexTests";
+import { SourceReader } from "../../src/utils/source";
+
+const classes = {
+  "Account.cls": "public class AccountService {}",
+  "AccountServiceTest.cls": "@isTest private class AccountServiceTest {}",
+  "OpportunityTest.cls":
+    "@IsTest private class OpportunityTest { void t() { new AccountService(); } }",
+  "ContactTest.cls":
+    "@isTest private class ContactTest { // AccountService\n }",
+};
+
+const reader: SourceReader = {
+  readFile: async (filePath) =>
+    Buffer.from(classes[filePath.replace("force-app/classes/", "")]),
+  exists: async () => true,
+  listDirectory: async () => [],
+  listFiles: async () => Object.keys(classes).map((c) => `classes/${c}`),
+};
+
+describe("apex tests", () => {
+  it("isTestClass", async () => {
+    expect(isTestClass("@isTest private class MyTest {}")).toEqual(true);
+    expect(isTestClass("// @isTest\npublic class MyClass {}")).toEqual(false);
+  });
+  it("referencesApexName", async () => {
+    expect(referencesApexName("new MyClass();", "myclass")).toEqual(true);
+    expect(referencesApexName("new MyClass2();", "MyClass")).toEqual(false);
+  });
+  it("findImpactedTestClasses", async () => {
+    expect(
+      await findImpactedTestClasses(reader, ["force-app"], ["AccountService"])
+    ).toEqual(["AccountServiceTest", "OpportunityTest"]);
+  });
+});
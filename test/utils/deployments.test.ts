@@ -0,0 +1,33 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { readDeployedCommit } from "../../src/utils/deployments";
+
+describe("deployments tests", () => {
+  it("readDeployedCommit", async () => {
+    const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const stateFilePath = path.join(
+      projectPath,
+      ".sfdx",
+      "mdt-deployments.json"
+    );
+    try {
+      fs.mkdirSync(path.join(projectPath, ".sfdx"));
+      fs.writeFileSync(
+        stateFilePath,
+        JSON.stringify({
+          uat: { commit: "1234567", date: "2021-01-01T00:00:00.000Z" },
+        })
+      );
+      expect(await readDeployedCommit(projectPath, "uat")).toEqual("1234567");
+      await expect(readDeployedCommit(projectPath, "prod")).rejects.toEqual(
+        'Error no deployed commit found for "prod" in the deployment file'
+      );
+    } finally {
+      fs.unlinkSync(stateFilePath);
+      fs.rmdirSync(path.dirname(stateFilePath));
+      fs.rmdirSync(projectPath);
+    }
+  });
+});
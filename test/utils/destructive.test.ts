@@ -0,0 +1,32 @@
+import {
+  forcedDestructivePhases,
+  splitDestructiveChanges,
+} from "../../src/utils/destructive";
+
+describe("destructive tests", () => {
+  it("splitDestructiveChanges", async () => {
+    expect(
+      splitDestructiveChanges(
+        {
+          ApexClass: ["OldService", "OldServiceTest"],
+          CustomField: ["Account.Old__c"],
+          CustomLabel: ["OldLabel"],
+        },
+        [
+          "public class Service { OldService service; }",
+          "<CustomLabels><labels><fullName>NewLabel</fullName></labels></CustomLabels>",
+        ],
+        forcedDestructivePhases([], ["CustomLabel"])
+      )
+    ).toEqual({
+      pre: {
+        ApexClass: ["OldServiceTest"],
+        CustomField: ["Account.Old__c"],
+      },
+      post: {
+        ApexClass: ["OldService"],
+        CustomLabel: ["OldLabel"],
+      },
+    });
+  });
+});
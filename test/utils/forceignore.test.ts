@@ -0,0 +1,28 @@
+import { buildIgnoreFile, findIgnoreFile } from "../../src/utils/forceignore";
+
+describe("forceignore tests", () => {
+  it("findIgnoreFile", async () => {
+    const ignoreFiles = [
+      buildIgnoreFile(".forceignore", "**/jsconfig.json\n**/__tests__/**"),
+      buildIgnoreFile("delta.ignore", "force-app/main/default/profiles/"),
+    ];
+    expect(
+      findIgnoreFile(ignoreFiles, "force-app/main/default/lwc/jsconfig.json")
+    ).toEqual(".forceignore");
+    expect(
+      findIgnoreFile(
+        ignoreFiles,
+        "force-app/main/default/lwc/cmp/__tests__/cmp.test.js"
+      )
+    ).toEqual(".forceignore");
+    expect(
+      findIgnoreFile(
+        ignoreFiles,
+        "force-app/main/default/profiles/Admin.profile-meta.xml"
+      )
+    ).toEqual("delta.ignore");
+    expect(
+      findIgnoreFile(ignoreFiles, "force-app/main/default/lwc/cmp/cmp.js")
+    ).toBeUndefined();
+  });
+});
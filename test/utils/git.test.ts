@@ -0,0 +1,86 @@
+import {
+  parseGitDiff,
+  parseGitLog,
+  gitCatFileReader,
+} from "../../src/utils/git";
+
+describe("git tests", () => {
+  it("parseGitDiff", async () => {
+    expect(
+      parseGitDiff(
+        [
+          "M",
+          "force-app/main/default/classes/Été.cls",
+          "R087",
+          "force-app/main/default/classes/Old.cls",
+          "force-app/main/default/classes/New.cls",
+          "D",
+          "force-app/main/default/labels/with\ttab.xml",
+          "C100",
+          "force-app/main/default/classes/A.cls",
+          "force-app/main/default/classes/B.cls",
+          "",
+        ].join("\0")
+      )
+    ).toEqual([
+      { status: "M", path: "force-app/main/default/classes/Été.cls" },
+      {
+        status: "R",
+        score: 87,
+        fromPath: "force-app/main/default/classes/Old.cls",
+        path: "force-app/main/default/classes/New.cls",
+      },
+      { status: "D", path: "force-app/main/default/labels/with\ttab.xml" },
+      {
+        status: "C",
+        score: 100,
+        fromPath: "force-app/main/default/classes/A.cls",
+        path: "force-app/main/default/classes/B.cls",
+      },
+    ]);
+  });
+  it("parseGitLog", async () => {
+    expect(
+      parseGitLog(
+        [
+          "\x1eabc123\x1fABC-1 add A\n\nbody\n\x1f\nA",
+          "force-app/A.cls",
+          "M",
+          "force-app/B.cls",
+          "\0\x1edef456\x1fABC-2 remove B\n\x1f\nD",
+          "force-app/B.cls",
+          "\0",
+        ].join("\0")
+      )
+    ).toEqual([
+      {
+        sha: "abc123",
+        message: "ABC-1 add A\n\nbody\n",
+        diffEntries: [
+          { status: "A", path: "force-app/A.cls" },
+          { status: "M", path: "force-app/B.cls" },
+        ],
+      },
+      {
+        sha: "def456",
+        message: "ABC-2 remove B\n",
+        diffEntries: [{ status: "D", path: "force-app/B.cls" }],
+      },
+    ]);
+  });
+  it("gitCatFileReader", async () => {
+    const objectReader = gitCatFileReader();
+    try {
+      const [packageJSON, missingFile, readmeFile] = await Promise.all([
+        objectReader.readFile("HEAD", "package.json"),
+        objectReader.readFile("HEAD", "missing.file"),
+        objectReader.readFile("HEAD", "README.md"),
+      ]);
+      expect(JSON.parse(packageJSON.toString("utf8")).name).toBeDefined();
+      expect(missingFile).toBeUndefined();
+      expect(readmeFile).toBeDefined();
+    } finally {
+      objectReader.close();
+    }
+  });
+});
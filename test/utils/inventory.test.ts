@@ -0,0 +1,117 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  orgInventory,
+  snapshotInventory,
+  sourceInventory,
+} from "../../src/utils/inventory";
+import { rmdirRecursive } from "../../src/utils/utilities";
+
+/**
+ * fake connection recording the metadata list queries & the describes
+ * @param listCalls
+ */
+const fakeConnection = (listCalls: string[][]) => ({
+  describeGlobal: async () => {
+    listCalls.push(["describeGlobal"]);
+    return { sobjects: [{ name: "Account" }] };
+  },
+  sobject: (sObjectName: string) => ({
+    describe: async () => {
+      listCalls.push([`describe ${sObjectName}`]);
+      return { fields: [{ name: "Id" }] };
+    },
+  }),
+  metadata: {
+    list: async (queries) => {
+      listCalls.push(queries.map((query) => query.type));
+      return queries.map((query) => ({
+        type: query.type,
+        fullName: `My${query.type}`,
+      }));
+    },
+  },
+});
+
+describe("inventory tests", () => {
+  it("orgInventory", async () => {
+    const listCalls: string[][] = [];
+    const inventory = orgInventory(fakeConnection(listCalls), [
+      "ApexClass",
+      "ApexPage",
+      "CustomObject",
+      "Flow",
+    ]);
+    expect(await inventory.listFullNames("CustomObject")).toEqual([
+      "MyCustomObject",
+    ]);
+    expect(await inventory.listFullNames("CustomObject")).toEqual([
+      "MyCustomObject",
+    ]);
+    expect(await inventory.listFullNames("Flow")).toEqual(["MyFlow"]);
+    expect(await inventory.listFullNames("Layout")).toEqual(["MyLayout"]);
+    expect(await inventory.listSObjects()).toEqual(["Account"]);
+    expect(await inventory.listSObjects()).toEqual(["Account"]);
+    expect(await inventory.listSObjectFields("Account")).toEqual(["Id"]);
+    expect(await inventory.listSObjectFields("Account")).toEqual(["Id"]);
+    expect(listCalls).toEqual([
+      ["ApexClass", "ApexPage", "CustomObject"],
+      ["Flow"],
+      ["Layout"],
+      ["describeGlobal"],
+      ["describe Account"],
+    ]);
+  });
+
+  it("snapshotInventory", async () => {
+    const inventory = snapshotInventory({
+      metadata: { ApexClass: ["A"] },
+      userPermissions: ["ApiEnabled"],
+    });
+    expect(await inventory.listFullNames("ApexClass")).toEqual(["A"]);
+    expect(await inventory.listUserPermissions()).toEqual(["ApiEnabled"]);
+    await expect(inventory.listFullNames("Flow")).rejects.toEqual(
+      "Error the inventory snapshot doesn't list the Flow metadata type"
+    );
+  });
+
+  it("sourceInventory", async () => {
+    const projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const sourceFiles = [
+      "force-app/main/default/classes/A.cls",
+      "force-app/main/default/classes/A.cls-meta.xml",
+      "force-app/main/default/objects/Account/fields/B__c.field-meta.xml",
+      "force-app/main/default/objects/C__c/C__c.object-meta.xml",
+      "force-app/main/default/objects/C__c/recordTypes/R.recordType-meta.xml",
+      "sales-app/layouts/C__c-C Layout.layout-meta.xml",
+    ];
+    try {
+      for (const filePath of sourceFiles) {
+        const sourceFilePath = path.join(projectPath, filePath);
+        fs.mkdirSync(path.dirname(sourceFilePath), { recursive: true });
+        fs.writeFileSync(sourceFilePath, "");
+      }
+      const inventory = await sourceInventory(projectPath, [
+        "force-app",
+        "sales-app",
+        "missing-app",
+      ]);
+      expect(inventory.standardMembers).toBe(false);
+      expect(await inventory.listFullNames("ApexClass")).toEqual(["A"]);
+      expect(await inventory.listFullNames("CustomField")).toEqual([
+        "Account.B__c",
+      ]);
+      expect(await inventory.listFullNames("CustomObject")).toEqual(["C__c"]);
+      expect(await inventory.listFullNames("RecordType")).toEqual(["C__c.R"]);
+      expect(await inventory.listFullNames("Layout")).toEqual([
+        "C__c-C Layout",
+      ]);
+      expect(await inventory.listFullNames("Flow")).toEqual([]);
+      expect(await inventory.listFullNames("Unknown")).toBeUndefined();
+    } finally {
+      await rmdirRecursive(projectPath);
+    }
+  });
+});
@@ -0,0 +1,155 @@
+import * as x2jParser from "fast-xml-parser";
+import {
+  Manifest,
+  resolveMetadataFolder,
+  resolveMetadataMember,
+  resolveChildMetadataMember,
+  addManifestMember,
+  generatePackageXML,
+} from "../../src/utils/manifest";
+
+const FMD_FOLDER = "force-app/main/default";
+const PACKAGE_DIRECTORIES = ["force-app", "sales-app"];
+
+describe("manifest tests", () => {
+  it("resolveMetadataMember", async () => {
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/classes/MyClass.cls`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "ApexClass", member: "MyClass" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/classes/MyClass.cls-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "ApexClass", member: "MyClass" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/lwc/myCmp/myCmp.js`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "LightningComponentBundle", member: "myCmp" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/lwc/jsconfig.json`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toBeUndefined();
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/staticresources/myResource.resource-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "StaticResource", member: "myResource" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/objects/Account/fields/MyField__c.field-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "CustomField", member: "Account.MyField__c" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/objects/Account/Account.object-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "CustomObject", member: "Account" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/objectTranslations/Account-fr/MyField__c.fieldTranslation-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "CustomObjectTranslation", member: "Account-fr" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/reports/MyFolder/MyReport.report-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "Report", member: "MyFolder/MyReport" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/reports/MyFolder/MySubFolder.reportFolder-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "Report", member: "MyFolder/MySubFolder" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/approvalProcesses/Account.Approve.approvalProcess-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "ApprovalProcess", member: "Account.Approve" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/bots/MyBot/MyBot.bot-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "Bot", member: "MyBot" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/bots/MyBot/v1.botVersion-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "BotVersion", member: "MyBot.v1" });
+    expect(
+      resolveMetadataMember(
+        `${FMD_FOLDER}/territory2Models/Model/territories/T.territory2-meta.xml`,
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "Territory2", member: "Model.T" });
+  });
+  it("resolveMetadataFolder", async () => {
+    expect(
+      resolveMetadataFolder(
+        "sales-app/main/sales/classes/MyClass.cls",
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({
+      metadataFolderPath: "sales-app/main/sales/classes",
+      directoryName: "classes",
+      parts: ["classes", "MyClass.cls"],
+    });
+    expect(
+      resolveMetadataMember(
+        "sales-app/sales/reports/classes/MyReport.report-meta.xml",
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "Report", member: "classes/MyReport" });
+    expect(
+      resolveMetadataFolder(
+        "other-app/classes/MyClass.cls",
+        PACKAGE_DIRECTORIES
+      )
+    ).toBeUndefined();
+  });
+  it("resolveChildMetadataMember", async () => {
+    expect(
+      resolveChildMetadataMember(
+        `${FMD_FOLDER}/labels/CustomLabels.labels-meta.xml`,
+        "labels",
+        "label1",
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "CustomLabel", member: "label1" });
+    expect(
+      resolveChildMetadataMember(
+        `${FMD_FOLDER}/sharingRules/Account.sharingRules-meta.xml`,
+        "sharingOwnerRules",
+        "rule1",
+        PACKAGE_DIRECTORIES
+      )
+    ).toEqual({ type: "SharingOwnerRule", member: "Account.rule1" });
+  });
+  it("generatePackageXML", async () => {
+    const manifest: Manifest = {};
+    addManifestMember(manifest, { type: "ApexClass", member: "B" });
+    addManifestMember(manifest, { type: "ApexClass", member: "A" });
+    addManifestMember(manifest, { type: "ApexClass", member: "A" });
+    addManifestMember(manifest, { type: "CustomLabel", member: "label1" });
+    const packageJSON = x2jParser.parse(generatePackageXML(manifest, "50.0"));
+    expect(packageJSON.Package.types[0].name).toEqual("ApexClass");
+    expect(packageJSON.Package.types[0].members).toEqual(["A", "B"]);
+    expect(packageJSON.Package.types[1].members).toEqual("label1");
+    expect(packageJSON.Package.version).toEqual(50);
+  });
+});
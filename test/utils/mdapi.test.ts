@@ -0,0 +1,90 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { convertToMdapi } from "../../src/utils/mdapi";
+import { listFilesRecursive, rmdirRecursive } from "../../src/utils/utilities";
+
+describe("mdapi tests", () => {
+  it("convertToMdapi", async () => {
+    const sourceDir = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const sourceFiles = {
+      "classes/A.cls": "public class A {}",
+      "classes/A.cls-meta.xml": "<ApexClass/>",
+      "layouts/Account-Layout.layout-meta.xml": "<Layout/>",
+      "reports/Sales.reportFolder-meta.xml": "<ReportFolder/>",
+      "objects/Account/Account.object-meta.xml":
+        "<CustomObject><label>Account</label></CustomObject>",
+      "objects/Account/fields/B__c.field-meta.xml":
+        "<CustomField><fullName>B__c</fullName></CustomField>",
+      "objects/Account/fields/A__c.field-meta.xml":
+        "<CustomField><fullName>A__c</fullName></CustomField>",
+      "territory2Models/M/M.territory2Model-meta.xml": "<Territory2Model/>",
+      "territory2Models/M/territories/T.territory2-meta.xml": "<Territory2/>",
+    };
+    try {
+      for (const filePath of Object.keys(sourceFiles)) {
+        const sourceFilePath = path.join(sourceDir, "force-app", filePath);
+        fs.mkdirSync(path.dirname(sourceFilePath), { recursive: true });
+        fs.writeFileSync(sourceFilePath, sourceFiles[filePath]);
+      }
+      await convertToMdapi(sourceDir, ["force-app"], outputDir);
+      expect((await listFilesRecursive(outputDir)).sort()).toEqual([
+        "classes/A.cls",
+        "classes/A.cls-meta.xml",
+        "layouts/Account-Layout.layout",
+        "objects/Account.object",
+        "reports/Sales-meta.xml",
+        "territory2Models/M/M.territory2Model",
+        "territory2Models/M/territories/T.territory2",
+      ]);
+      const objectXML = fs.readFileSync(
+        path.join(outputDir, "objects/Account.object"),
+        "utf8"
+      );
+      expect(objectXML.replace(/\s/g, "")).toEqual(
+        [
+          '<?xmlversion="1.0"encoding="UTF-8"?>',
+          '<CustomObjectxmlns="http://soap.sforce.com/2006/04/metadata">',
+          "<fields><fullName>A__c</fullName></fields>",
+          "<fields><fullName>B__c</fullName></fields>",
+          "<label>Account</label>",
+          "</CustomObject>",
+        ].join("")
+      );
+    } finally {
+      await rmdirRecursive(sourceDir);
+      await rmdirRecursive(outputDir);
+    }
+  });
+
+  it("convertToMdapi of unknown metadata types", async () => {
+    const sourceDir = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    const sourceFiles = {
+      "package.xml": "<Package/>",
+      "force-app/unknowns/U.unknown-meta.xml": "<Unknown/>",
+    };
+    try {
+      for (const filePath of Object.keys(sourceFiles)) {
+        const sourceFilePath = path.join(sourceDir, filePath);
+        fs.mkdirSync(path.dirname(sourceFilePath), { recursive: true });
+        fs.writeFileSync(sourceFilePath, sourceFiles[filePath]);
+      }
+      await expect(
+        convertToMdapi(sourceDir, ["force-app"], outputDir)
+      ).rejects.toEqual(
+        `Error "force-app/unknowns/U.unknown-meta.xml" isn't a known metadata file`
+      );
+      fs.unlinkSync(
+        path.join(sourceDir, "force-app/unknowns/U.unknown-meta.xml")
+      );
+      await convertToMdapi(sourceDir, ["force-app"], outputDir);
+      expect(await listFilesRecursive(outputDir)).toEqual([]);
+    } finally {
+      await rmdirRecursive(sourceDir);
+      await rmdirRecursive(outputDir);
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { findPackageDirectory, readProject } from "../../src/utils/project";
+import { rmdirRecursive } from "../../src/utils/utilities";
+
+describe("project tests", () => {
+  it("readProject from a subdirectory", async () => {
+    const projectPath = fs.realpathSync(
+      fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"))
+    );
+    const subdirPath = path.join(projectPath, "src", "main", "default");
+    const cwd = process.cwd();
+    try {
+      fs.mkdirSync(subdirPath, { recursive: true });
+      fs.writeFileSync(
+        path.join(projectPath, "sfdx-project.json"),
+        JSON.stringify({
+          packageDirectories: [
+            { path: "./src/", default: true },
+            { path: "packages\\utils" },
+          ],
+          sourceApiVersion: "52.0",
+        })
+      );
+      const project = {
+        projectPath,
+        packageDirectories: ["src", "packages/utils"],
+        sourceApiVersion: "52.0",
+      };
+      expect(await readProject(subdirPath)).toEqual(project);
+      process.chdir(subdirPath);
+      expect(await readProject()).toEqual(project);
+      expect(
+        findPackageDirectory(
+          "packages/utils/classes/A.cls",
+          project.packageDirectories
+        )
+      ).toEqual("packages/utils");
+      expect(
+        findPackageDirectory("sfdx-project.json", project.packageDirectories)
+      ).toBeUndefined();
+    } finally {
+      process.chdir(cwd);
+      await rmdirRecursive(projectPath);
+    }
+  });
+});
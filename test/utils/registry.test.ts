@@ -0,0 +1,58 @@
+import {
+  metadataRegistry,
+  buildMetadataRegistry,
+  resolveMetadataType,
+} from "../../src/utils/registry";
+
+describe("registry tests", () => {
+  it("resolveMetadataType", async () => {
+    expect(resolveMetadataType(["classes", "MyClass.cls"]).xmlName).toEqual(
+      "ApexClass"
+    );
+    expect(
+      resolveMetadataType(["objects", "Account", "Account.object-meta.xml"])
+        .xmlName
+    ).toEqual("CustomObject");
+    const recordType = resolveMetadataType([
+      "objects",
+      "Account",
+      "recordTypes",
+      "MyRecordType.recordType-meta.xml",
+    ]);
+    expect(recordType.xmlName).toEqual("RecordType");
+    expect(recordType.strategy).toEqual("diff");
+    expect(resolveMetadataType(["unknown", "file.txt"])).toBeUndefined();
+  });
+  it("buildMetadataRegistry", async () => {
+    const registry = buildMetadataRegistry(
+      [
+        {
+          xmlName: "MyType",
+          directoryName: "myTypes",
+          suffix: "myType",
+          strategy: "file",
+        },
+        {
+          directoryName: "profiles",
+          strategy: "file",
+        },
+      ],
+      metadataRegistry
+    );
+    expect(
+      resolveMetadataType(["myTypes", "a.myType-meta.xml"], registry)
+    ).toBeDefined();
+    expect(registry.profiles.xmlName).toEqual("Profile");
+    expect(registry.profiles.strategy).toEqual("file");
+    expect(metadataRegistry.profiles.strategy).toEqual("diff");
+    expect(() =>
+      buildMetadataRegistry([
+        {
+          xmlName: "MyType",
+          directoryName: "myTypes",
+          strategy: "copy",
+        },
+      ])
+    ).toThrow();
+  });
+});
@@ -0,0 +1,112 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import { commitMessageMatcher, selectChanges } from "../../src/utils/selection";
+import { rmdirRecursive } from "../../src/utils/utilities";
+
+/**
+ * commit changes to a test repository, null deletes a file
+ * @param repoPath
+ * @param files
+ * @param message
+ */
+const commitFiles = (
+  repoPath: string,
+  files: { [filePath: string]: string | null },
+  message: string
+): string => {
+  for (const filePath of Object.keys(files)) {
+    if (files[filePath] === null) {
+      fs.unlinkSync(path.join(repoPath, filePath));
+    } else {
+      fs.writeFileSync(path.join(repoPath, filePath), files[filePath]);
+    }
+  }
+  const git = (...args: string[]) =>
+    execFileSync(
+      "git",
+      ["-c", "user.name=test", "-c", "user.email=test@test.com", ...args],
+      { cwd: repoPath }
+    )
+      .toString()
+      .trim();
+  git("add", "-A");
+  git("commit", "--no-gpg-sign", "-q", "-m", message);
+  return git("rev-parse", "HEAD");
+};
+
+describe("selection tests", () => {
+  it("commitMessageMatcher", async () => {
+    const isSelected = commitMessageMatcher({ tickets: ["ABC-1", "XYZ-7"] });
+    expect(isSelected("ABC-1 add the account field")).toBe(true);
+    expect(isSelected("fix(XYZ-7): layout")).toBe(true);
+    expect(isSelected("ABC-12 another story")).toBe(false);
+    expect(isSelected("XABC-1 another project")).toBe(false);
+    const isHotfix = commitMessageMatcher({ grep: "^hotfix:" });
+    expect(isHotfix("story\n\nhotfix: login")).toBe(true);
+    expect(isHotfix("story")).toBe(false);
+    expect(() => commitMessageMatcher({ grep: "(" })).toThrow(
+      'Error invalid commit message pattern "("'
+    );
+  });
+
+  it("selectChanges", async () => {
+    const repoPath = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    try {
+      execFileSync("git", ["init", "-q"], { cwd: repoPath });
+      const from = commitFiles(
+        repoPath,
+        { "A.cls": "A", "B.cls": "B" },
+        "base"
+      );
+      const addC = commitFiles(
+        repoPath,
+        { "A.cls": "A1", "C.cls": "C", "E.cls": "E" },
+        "ABC-1 add C"
+      );
+      const other = commitFiles(
+        repoPath,
+        { "A.cls": "A2", "D.cls": "D" },
+        "XYZ-2 other story"
+      );
+      const removeB = commitFiles(
+        repoPath,
+        { "B.cls": null, "E.cls": null },
+        "ABC-1 remove B"
+      );
+      const changes = await selectChanges(
+        from,
+        undefined,
+        { tickets: ["ABC-1"] },
+        repoPath
+      );
+      expect(changes.selectedCommits).toEqual([removeB, addC]);
+      expect(changes.diffEntries).toEqual([
+        { status: "M", path: "A.cls" },
+        { status: "D", path: "B.cls" },
+        { status: "A", path: "C.cls" },
+      ]);
+      expect(changes.revisions).toEqual({
+        "A.cls": addC,
+        "B.cls": removeB,
+        "C.cls": addC,
+        "E.cls": removeB,
+      });
+      expect(changes.excludedChanges).toEqual([
+        { path: "A.cls", commits: [other] },
+      ]);
+      const noChanges = await selectChanges(
+        from,
+        "HEAD",
+        { grep: "^hotfix:" },
+        repoPath
+      );
+      expect(noChanges.selectedCommits).toEqual([]);
+      expect(noChanges.diffEntries).toEqual([]);
+    } finally {
+      await rmdirRecursive(repoPath);
+    }
+  });
+});
@@ -1,4 +1,13 @@
-import { profileAccessFilenamesCompare } from "../../src/utils/utilities";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+import {
+  profileAccessFilenamesCompare,
+  mapWithConcurrency,
+  listMatchingFiles,
+  rmdirRecursive,
+} from "../../src/utils/utilities";
 
 describe("utility tests", () => {
   it("profileAccessFilenamesCompare", async () => {
@@ -38,4 +47,79 @@ describe("utility tests", () => {
       )
     ).toEqual(-1);
   });
+  it("mapWithConcurrency", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const result = await mapWithConcurrency(
+      [30, 10, 20, 0, 5],
+      2,
+      async (n) => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, n));
+        running--;
+        return n * 2;
+      }
+    );
+    expect(result).toEqual([60, 20, 40, 0, 10]);
+    expect(maxRunning).toEqual(2);
+  });
+  it("listMatchingFiles", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "mdt-"));
+    try {
+      for (const filePath of [
+        "profiles/Admin.profile-meta.xml",
+        "profiles/Sales.profile-meta.xml",
+        "profiles/readme.md",
+        "profiles/old/Old.profile-meta.xml",
+      ]) {
+        fs.mkdirSync(path.dirname(path.join(dir, filePath)), {
+          recursive: true,
+        });
+        fs.writeFileSync(path.join(dir, filePath), "");
+      }
+      const profilesDir = path.posix.join(dir, "profiles");
+      expect(
+        await listMatchingFiles(`${profilesDir}/Admin.profile-meta.xml`)
+      ).toEqual([`${profilesDir}/Admin.profile-meta.xml`]);
+      expect(
+        await listMatchingFiles(profilesDir, [".profile-meta.xml"])
+      ).toEqual([
+        `${profilesDir}/Admin.profile-meta.xml`,
+        `${profilesDir}/Sales.profile-meta.xml`,
+        `${profilesDir}/old/Old.profile-meta.xml`,
+      ]);
+      expect(
+        await listMatchingFiles(`${profilesDir}/S*.profile-meta.xml`)
+      ).toEqual([`${profilesDir}/Sales.profile-meta.xml`]);
+      expect(await listMatchingFiles(`${profilesDir}/*`)).toEqual([
+        `${profilesDir}/Admin.profile-meta.xml`,
+        `${profilesDir}/Sales.profile-meta.xml`,
+        `${profilesDir}/readme.md`,
+      ]);
+      expect(
+        await listMatchingFiles(`${profilesDir}/*`, [".profile-meta.xml"])
+      ).toEqual([
+        `${profilesDir}/Admin.profile-meta.xml`,
+        `${profilesDir}/Sales.profile-meta.xml`,
+      ]);
+      expect(
+        await listMatchingFiles(`${dir}/**`, [".profile-meta.xml"])
+      ).toEqual([
+        `${profilesDir}/Admin.profile-meta.xml`,
+        `${profilesDir}/Sales.profile-meta.xml`,
+        `${profilesDir}/old/Old.profile-meta.xml`,
+      ]);
+      expect(
+        await listMatchingFiles(`${dir}/**/old/*.profile-meta.xml`)
+      ).toEqual([`${profilesDir}/old/Old.profile-meta.xml`]);
+      await expect(
+        listMatchingFiles(`${profilesDir}/Missing.profile-meta.xml`)
+      ).rejects.toEqual(
+        `Error file "${profilesDir}/Missing.profile-meta.xml" not found`
+      );
+    } finally {
+      await rmdirRecursive(dir);
+    }
+  });
 });